@@ -31,7 +31,7 @@ async function main() {
 
     // Run talent - sessionId is automatically injected!
     console.log(`Running talent: ${TALENT_ID}`);
-    const result2 = await client.runTalent(TALENT_ID, {
+    const result2 = await client.runTalentAndWait(TALENT_ID, {
       args: { asin: "B08QZMJBFR" },
     });
     console.log(`  ✓ Status: ${JSON.stringify(result2)}\n`);
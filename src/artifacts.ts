@@ -0,0 +1,223 @@
+import type { Method } from "axios";
+import type { Readable } from "stream";
+import {
+  Artifact,
+  DownloadedArtifact,
+  ListArtifacts,
+  ListArtifactsOptions,
+  RequestOptions,
+} from "./types.js";
+import { WitriumClientException } from "./errors.js";
+import { paginate } from "./pagination.js";
+import { loadBuiltinAsync } from "./utils.js";
+
+/**
+ * Sends a request through the owning client and maps failures onto
+ * WitriumClientException subclasses, prefixed with `action`.
+ */
+export type ArtifactsRequest = (
+  method: Method,
+  url: string,
+  action: string,
+  options: RequestOptions & { params?: Record<string, unknown> }
+) => Promise<any>;
+
+/**
+ * Like ArtifactsRequest, but resolves with the unread response body: a Node
+ * Readable from axios, or a web ReadableStream from a fetch transport.
+ */
+export type ArtifactsStreamRequest = (
+  url: string,
+  action: string,
+  options: RequestOptions
+) => Promise<unknown>;
+
+async function requireBuiltin<T>(name: string, feature: string): Promise<T> {
+  const builtin = await loadBuiltinAsync<T>(name);
+  if (!builtin) {
+    throw new WitriumClientException(
+      `${feature} needs Node.js streams and file system access, which this runtime does not provide`
+    );
+  }
+  return builtin;
+}
+
+/**
+ * A file name for an artifact inside a download directory, without any
+ * directory parts the API may have sent.
+ */
+function localFilename(artifact: Artifact): string {
+  const name = artifact.filename.split(/[\\/]/).pop() ?? "";
+  return name === "" || name === "." || name === ".." ? artifact.uuid : name;
+}
+
+/**
+ * Session recordings, screenshots and downloaded files produced by runs and
+ * browser sessions. Available as `client.artifacts`.
+ *
+ * Downloads are streamed, so large recordings are never held in memory.
+ * Streaming and downloading need Node.js (or a runtime with its `stream` and
+ * `fs` modules); listing works everywhere.
+ */
+export class ArtifactsClient {
+  private _send: ArtifactsRequest;
+  private _openStream: ArtifactsStreamRequest;
+
+  constructor(send: ArtifactsRequest, openStream: ArtifactsStreamRequest) {
+    this._send = send;
+    this._openStream = openStream;
+  }
+
+  async listForRun(
+    runId: string,
+    options: ListArtifactsOptions = {}
+  ): Promise<ListArtifacts> {
+    return this._list(
+      `/v1/runs/${runId}/artifacts`,
+      "Error listing run artifacts",
+      options
+    );
+  }
+
+  async listForSession(
+    sessionId: string,
+    options: ListArtifactsOptions = {}
+  ): Promise<ListArtifacts> {
+    return this._list(
+      `/v1/browser-sessions/${sessionId}/artifacts`,
+      "Error listing browser session artifacts",
+      options
+    );
+  }
+
+  async get(
+    artifactId: string,
+    options: RequestOptions = {}
+  ): Promise<Artifact> {
+    return this._send(
+      "get",
+      `/v1/artifacts/${artifactId}`,
+      "Error getting artifact",
+      options
+    );
+  }
+
+  /**
+   * Open an artifact's content as a Node Readable. Read or destroy it, or
+   * the connection stays open.
+   */
+  async stream(
+    artifactId: string,
+    options: RequestOptions = {}
+  ): Promise<Readable> {
+    const streams = await requireBuiltin<typeof import("stream")>(
+      "stream",
+      "ArtifactsClient.stream()"
+    );
+    const body = await this._openStream(
+      `/v1/artifacts/${artifactId}/download`,
+      "Error downloading artifact",
+      options
+    );
+    if (body instanceof streams.Readable) {
+      return body;
+    }
+    // A web ReadableStream, from a fetch transport
+    return streams.Readable.fromWeb(
+      body as Parameters<typeof streams.Readable.fromWeb>[0]
+    );
+  }
+
+  /**
+   * Stream an artifact's content to a file. The file only appears once the
+   * download is complete.
+   */
+  async download(
+    artifactId: string,
+    filePath: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    const fs = await requireBuiltin<typeof import("fs")>(
+      "fs",
+      "ArtifactsClient.download()"
+    );
+    const { pipeline } = await requireBuiltin<typeof import("stream/promises")>(
+      "stream/promises",
+      "ArtifactsClient.download()"
+    );
+    const partial = `${filePath}.part`;
+    const body = await this.stream(artifactId, options);
+    try {
+      await pipeline(body, fs.createWriteStream(partial), {
+        signal: options.signal,
+      });
+      await fs.promises.rename(partial, filePath);
+    } catch (error) {
+      await fs.promises.rm(partial, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Download every artifact of a run or browser session into a directory,
+   * one at a time, creating the directory if needed. Artifacts that share a
+   * file name are prefixed with their ID.
+   */
+  async downloadAll(
+    source: { runId: string } | { sessionId: string },
+    directory: string,
+    options: ListArtifactsOptions = {}
+  ): Promise<DownloadedArtifact[]> {
+    const fs = await requireBuiltin<typeof import("fs")>(
+      "fs",
+      "ArtifactsClient.downloadAll()"
+    );
+    const path = await requireBuiltin<typeof import("path")>(
+      "path",
+      "ArtifactsClient.downloadAll()"
+    );
+    await fs.promises.mkdir(directory, { recursive: true });
+
+    const { limit, offset, type, ...requestOptions } = options;
+    const artifacts = paginate(
+      async (pageOffset, pageLimit) => {
+        const listOptions = {
+          ...requestOptions,
+          type,
+          offset: pageOffset,
+          limit: pageLimit,
+        };
+        const page =
+          "runId" in source
+            ? await this.listForRun(source.runId, listOptions)
+            : await this.listForSession(source.sessionId, listOptions);
+        return { items: page.artifacts, totalCount: page.totalCount };
+      },
+      { limit, offset }
+    );
+
+    const downloaded: DownloadedArtifact[] = [];
+    const used = new Set<string>();
+    for await (const artifact of artifacts) {
+      let filename = localFilename(artifact);
+      if (used.has(filename)) filename = `${artifact.uuid}-${filename}`;
+      used.add(filename);
+      const filePath = path.join(directory, filename);
+      await this.download(artifact.uuid, filePath, requestOptions);
+      downloaded.push({ artifact, path: filePath });
+    }
+    return downloaded;
+  }
+
+  private async _list(
+    url: string,
+    action: string,
+    options: ListArtifactsOptions
+  ): Promise<ListArtifacts> {
+    const params: Record<string, unknown> = {};
+    if (options.type !== undefined) params.type = options.type;
+    if (options.limit !== undefined) params.limit = options.limit;
+    if (options.offset !== undefined) params.offset = options.offset;
+    return this._send("get", url, action, { ...options, params });
+  }
+}
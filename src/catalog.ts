@@ -0,0 +1,100 @@
+import { ArgumentType, TalentDefinition, WorkflowDefinition } from "./types.js";
+import { WitriumArgsValidationException } from "./errors.js";
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * Find the declared name closest to a mistyped one, if any is close enough.
+ */
+function suggest(name: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(name.length / 3)) + 1;
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function matchesArgumentType(value: unknown, type: ArgumentType): boolean {
+  if (type === "string") {
+    return typeof value === "string";
+  }
+  // Numeric strings are accepted, the API coerces them
+  let number: number;
+  if (typeof value === "number") {
+    number = value;
+  } else if (typeof value === "string" && value.trim() !== "") {
+    number = Number(value);
+  } else {
+    return false;
+  }
+  return (
+    Number.isFinite(number) && (type === "number" || Number.isInteger(number))
+  );
+}
+
+/**
+ * Check run arguments against the parameters declared by a workflow or
+ * talent, so typos and missing values fail locally instead of producing a
+ * failed run. Throws a WitriumArgsValidationException listing every issue.
+ */
+export function validateArgs(
+  definition: WorkflowDefinition | TalentDefinition,
+  args: object = {}
+): void {
+  const declared = new Map(definition.arguments.map((arg) => [arg.name, arg]));
+  const issues: string[] = [];
+
+  for (const [name, value] of Object.entries(args)) {
+    const argument = declared.get(name);
+    if (!argument) {
+      const suggestion = suggest(name, [...declared.keys()]);
+      issues.push(
+        suggestion !== undefined
+          ? `unknown argument '${name}' (did you mean '${suggestion}'?)`
+          : `unknown argument '${name}'`
+      );
+    } else if (!matchesArgumentType(value, argument.type)) {
+      issues.push(
+        `argument '${name}' should be ${argument.type === "integer" ? "an" : "a"} ${argument.type}, received ${JSON.stringify(value)}`
+      );
+    }
+  }
+
+  for (const argument of definition.arguments) {
+    if (
+      argument.required &&
+      argument.defaultValue === null &&
+      !(argument.name in args)
+    ) {
+      issues.push(`missing required argument '${argument.name}'`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new WitriumArgsValidationException(
+      `Invalid arguments for '${definition.name}': ${issues.join("; ")}`,
+      { issues }
+    );
+  }
+}
@@ -0,0 +1,584 @@
+#!/usr/bin/env node
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { WitriumClient } from "./client.js";
+import { WorkflowRunStatus, SDK_VERSION } from "./constants.js";
+import {
+  WitriumTerminalStateException,
+  WitriumTimeoutException,
+} from "./errors.js";
+import { FileUpload } from "./files.js";
+import {
+  BinaryFileUpload,
+  TalentRunResult,
+  TalentStatus,
+  WorkflowRunResult,
+  WorkflowStatus,
+} from "./types.js";
+
+/** Process exit codes. Runs map onto them through their terminal status. */
+const ExitCode = {
+  SUCCESS: 0,
+  RUN_FAILED: 1,
+  USAGE: 2,
+  RUN_CANCELLED: 3,
+  TIMEOUT: 4,
+  ERROR: 5,
+} as const;
+
+const USAGE = `Usage: witrium <command> [options]
+
+Commands:
+  run <workflowId>            Run a workflow
+      --arg key=value         Workflow argument (repeatable)
+      --file path             File to upload (repeatable)
+      --session id            Browser session to run in
+      --use-state name        Saved state to load (repeatable)
+      --preserve-state name   Save the browser state under this name
+      --wait                  Wait for the run to finish
+      --timeout seconds       Give up waiting after this long
+      --interval seconds      Polling interval while waiting (default: 5)
+  results <runId>             Show the current results of a run
+  wait <runId>                Wait for a run to reach a status
+      --status name           pending, running or completed (default: completed)
+      --timeout seconds       Give up waiting after this long
+      --interval seconds      Polling interval (default: 5)
+  cancel <runId>              Cancel a run
+  talent run <talentId>       Run a talent (accepts the same options as run)
+  talent results <runId>      Show the current results of a talent run
+  talent cancel <runId>       Cancel a talent run
+  sessions list               List browser sessions
+  sessions get <sessionId>    Show a browser session
+  sessions close <sessionId>  Close a browser session
+      --force                 Close even if a run is using it
+      --preserve-state name   Save the browser state before closing
+
+Global options:
+  --json                      Print raw JSON instead of tables
+  --token token               API token (default: WITRIUM_API_KEY or config file)
+  --base-url url              API base URL (default: WITRIUM_BASE_URL or config file)
+  --config path               Config file (default: ~/.witrium/config.json)
+  --help                      Show this help
+  --version                   Show the SDK version
+
+Exit codes: 0 completed (or submitted without --wait), 1 failed, 2 usage
+error, 3 cancelled, 4 timed out (waiting for a run, or on an API request),
+5 other API or client error.
+`;
+
+const COMMANDS = new Set([
+  "run",
+  "results",
+  "wait",
+  "cancel",
+  "talent",
+  "sessions",
+]);
+const REPEATABLE = new Set(["arg", "file", "use-state"]);
+const BOOLEAN = new Set(["wait", "force", "json", "help", "version"]);
+
+class UsageError extends Error {}
+
+interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | boolean | string[]>;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: ParsedArgs["flags"] = {};
+  for (let i = 0; i < argv.length; i++) {
+    const token = argv[i];
+    if (!token.startsWith("--")) {
+      positionals.push(token);
+      continue;
+    }
+    let name = token.slice(2);
+    let value: string | undefined;
+    const equals = name.indexOf("=");
+    if (equals !== -1) {
+      value = name.slice(equals + 1);
+      name = name.slice(0, equals);
+    }
+    if (BOOLEAN.has(name)) {
+      flags[name] = true;
+      continue;
+    }
+    if (value === undefined) {
+      value = argv[++i];
+      // Use --name=value for a value that starts with "--"
+      if (value === undefined || value.startsWith("--")) {
+        throw new UsageError(`Missing value for --${name}`);
+      }
+    }
+    if (REPEATABLE.has(name)) {
+      flags[name] = [...((flags[name] as string[] | undefined) ?? []), value];
+    } else {
+      flags[name] = value;
+    }
+  }
+  return { positionals, flags };
+}
+
+function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  return args.flags[name] as string | undefined;
+}
+
+function listFlag(args: ParsedArgs, name: string): string[] | undefined {
+  return args.flags[name] as string[] | undefined;
+}
+
+function secondsFlag(args: ParsedArgs, name: string): number | undefined {
+  const value = stringFlag(args, name);
+  if (value === undefined) return undefined;
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    throw new UsageError(`--${name} must be a number of seconds`);
+  }
+  return seconds * 1000;
+}
+
+function requirePositional(
+  args: ParsedArgs,
+  index: number,
+  name: string
+): string {
+  const value = args.positionals[index];
+  if (value === undefined) {
+    throw new UsageError(`Missing <${name}>`);
+  }
+  return value;
+}
+
+function parseRunArgs(
+  entries: string[] | undefined
+): Record<string, string> | undefined {
+  if (entries === undefined) return undefined;
+  const runArgs: Record<string, string> = {};
+  for (const entry of entries) {
+    const equals = entry.indexOf("=");
+    if (equals <= 0) {
+      throw new UsageError(`--arg must look like key=value, got '${entry}'`);
+    }
+    runArgs[entry.slice(0, equals)] = entry.slice(equals + 1);
+  }
+  return runArgs;
+}
+
+// Failed and cancelled runs end a wait anyway, so they cannot be waited for
+const WAIT_STATUSES: WorkflowStatus[] = [
+  WorkflowRunStatus.PENDING,
+  WorkflowRunStatus.RUNNING,
+  WorkflowRunStatus.COMPLETED,
+];
+
+function parseWaitStatus(name: string): WorkflowStatus {
+  const status = WAIT_STATUSES.find(
+    (code) =>
+      code === name.toUpperCase() ||
+      WorkflowRunStatus.getStatusName(code) === name.toLowerCase()
+  );
+  if (!status) {
+    throw new UsageError(
+      `--status must be pending, running or completed, got '${name}'`
+    );
+  }
+  return status;
+}
+
+async function loadConfig(
+  configPath: string | undefined
+): Promise<{ apiToken?: string; baseURL?: string }> {
+  const file =
+    configPath ??
+    process.env.WITRIUM_CONFIG ??
+    path.join(os.homedir(), ".witrium", "config.json");
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (error) {
+    // Only an explicitly requested config file has to exist
+    if (
+      configPath === undefined &&
+      (error as NodeJS.ErrnoException).code === "ENOENT"
+    ) {
+      return {};
+    }
+    throw new UsageError(
+      `Could not read config file ${file}: ${(error as Error).message}`
+    );
+  }
+}
+
+async function createClient(args: ParsedArgs): Promise<WitriumClient> {
+  const config = await loadConfig(stringFlag(args, "config"));
+  return new WitriumClient({
+    apiToken:
+      stringFlag(args, "token") ??
+      process.env.WITRIUM_API_KEY ??
+      config.apiToken,
+    baseURL:
+      stringFlag(args, "base-url") ??
+      process.env.WITRIUM_BASE_URL ??
+      config.baseURL,
+    userAgentSuffix: "cli",
+  });
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "-";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function columnLabel(column: string): string {
+  return column.replace(/([A-Z])/g, " $1").toUpperCase();
+}
+
+/**
+ * Render rows as an aligned plain-text table.
+ */
+function formatTable<T extends object>(
+  rows: T[],
+  columns: (keyof T & string)[]
+): string {
+  const cells = rows.map((row) =>
+    columns.map((column) => formatValue(row[column]))
+  );
+  const widths = columns.map((column, i) =>
+    Math.max(columnLabel(column).length, ...cells.map((row) => row[i].length))
+  );
+  const line = (values: string[]) =>
+    values
+      .map((value, i) => value.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+  return [line(columns.map(columnLabel)), ...cells.map(line)].join("\n");
+}
+
+function formatRecord(record: Record<string, unknown>): string {
+  const width = Math.max(...Object.keys(record).map((key) => key.length));
+  return Object.entries(record)
+    .map(([key, value]) => `${key.padEnd(width)}  ${formatValue(value)}`)
+    .join("\n");
+}
+
+function formatRunResult(results: WorkflowRunResult): string {
+  const sections = [
+    formatRecord({
+      runId: results.runId,
+      workflowId: results.workflowId,
+      status: WorkflowRunStatus.getStatusName(results.status),
+      startedAt: results.startedAt,
+      completedAt: results.completedAt,
+      errorMessage: results.errorMessage,
+    }),
+  ];
+  if (results.executions && results.executions.length > 0) {
+    sections.push(
+      formatTable(
+        results.executions.map((execution) => ({
+          order: execution.instructionOrder,
+          instruction: execution.instruction,
+          status: WorkflowRunStatus.getStatusName(execution.status),
+          error: execution.errorMessage,
+        })),
+        ["order", "instruction", "status", "error"]
+      )
+    );
+  }
+  if (results.result !== undefined && results.result !== null) {
+    sections.push(JSON.stringify(results.result, null, 2));
+  }
+  return sections.join("\n\n");
+}
+
+function formatTalentResult(results: TalentRunResult): string {
+  const sections = [
+    formatRecord({
+      runId: results.runId,
+      talentId: results.talentId,
+      status: WorkflowRunStatus.getStatusName(results.status),
+      startedAt: results.startedAt,
+      completedAt: results.completedAt,
+      errorMessage: results.errorMessage,
+    }),
+  ];
+  if (results.result !== undefined && results.result !== null) {
+    sections.push(JSON.stringify(results.result, null, 2));
+  }
+  return sections.join("\n\n");
+}
+
+/**
+ * Exit code for a run status: non-terminal statuses count as success.
+ */
+function exitCodeForStatus(status: string): number {
+  switch (status) {
+    case WorkflowRunStatus.FAILED:
+      return ExitCode.RUN_FAILED;
+    case WorkflowRunStatus.CANCELLED:
+      return ExitCode.RUN_CANCELLED;
+    default:
+      return ExitCode.SUCCESS;
+  }
+}
+
+async function readFiles(
+  paths: string[] | undefined
+): Promise<BinaryFileUpload[] | undefined> {
+  if (paths === undefined) return undefined;
+  return Promise.all(paths.map((filePath) => FileUpload.fromPath(filePath)));
+}
+
+async function runCommand(
+  args: ParsedArgs,
+  print: (human: string, json: unknown) => void,
+  log: (message: string) => void
+): Promise<number> {
+  const [command, subcommand] = args.positionals;
+  if (!COMMANDS.has(command)) {
+    throw new UsageError(`Unknown command '${command}'`);
+  }
+  const client = await createClient(args);
+
+  switch (command) {
+    case "run": {
+      const workflowId = requirePositional(args, 1, "workflowId");
+      const runOptions = {
+        args: parseRunArgs(listFlag(args, "arg")),
+        files: await readFiles(listFlag(args, "file")),
+        browserSessionId: stringFlag(args, "session"),
+        useStates: listFlag(args, "use-state"),
+        preserveState: stringFlag(args, "preserve-state"),
+      };
+      if (!args.flags.wait) {
+        const submitted = await client.runWorkflow(workflowId, runOptions);
+        print(
+          formatRecord({
+            runId: submitted.runId,
+            workflowId: submitted.workflowId,
+            status: WorkflowRunStatus.getStatusName(submitted.status),
+          }),
+          submitted
+        );
+        return ExitCode.SUCCESS;
+      }
+      let lastStatus: WorkflowStatus | undefined;
+      const results = (await client.runWorkflowAndWait(workflowId, {
+        ...runOptions,
+        timeout: secondsFlag(args, "timeout"),
+        pollingInterval: secondsFlag(args, "interval"),
+        onProgress: (progress) => {
+          if (progress.status !== lastStatus) {
+            lastStatus = progress.status;
+            log(
+              `Run ${progress.runId}: ${WorkflowRunStatus.getStatusName(progress.status)}`
+            );
+          }
+        },
+      })) as WorkflowRunResult;
+      print(formatRunResult(results), results);
+      return exitCodeForStatus(results.status);
+    }
+
+    case "results": {
+      const results = await client.getWorkflowResults(
+        requirePositional(args, 1, "runId")
+      );
+      print(formatRunResult(results), results);
+      return exitCodeForStatus(results.status);
+    }
+
+    case "wait": {
+      const runId = requirePositional(args, 1, "runId");
+      const status = parseWaitStatus(stringFlag(args, "status") ?? "completed");
+      const results = await client.waitUntilState(runId, status, {
+        timeout: secondsFlag(args, "timeout"),
+        // waitUntilState() polls every 2 seconds by default; match `run --wait`
+        pollingInterval: secondsFlag(args, "interval") ?? 5000,
+      });
+      print(formatRunResult(results), results);
+      return exitCodeForStatus(results.status);
+    }
+
+    case "cancel": {
+      const run = await client.cancelRun(requirePositional(args, 1, "runId"));
+      print(
+        formatRecord({
+          runId: run.uuid,
+          status: WorkflowRunStatus.getStatusName(run.status),
+        }),
+        run
+      );
+      return ExitCode.SUCCESS;
+    }
+
+    case "talent": {
+      switch (subcommand) {
+        case "run": {
+          const talentId = requirePositional(args, 2, "talentId");
+          const runOptions = {
+            args: parseRunArgs(listFlag(args, "arg")),
+            files: await readFiles(listFlag(args, "file")),
+            browserSessionId: stringFlag(args, "session"),
+            useStates: listFlag(args, "use-state"),
+            preserveState: stringFlag(args, "preserve-state"),
+          };
+          if (!args.flags.wait) {
+            const submitted = await client.runTalent(talentId, runOptions);
+            print(
+              formatRecord({
+                runId: submitted.runId,
+                talentId: submitted.talentId,
+                status: WorkflowRunStatus.getStatusName(submitted.status),
+              }),
+              submitted
+            );
+            return ExitCode.SUCCESS;
+          }
+          let lastStatus: TalentStatus | undefined;
+          const results = await client.runTalentAndWait(talentId, {
+            ...runOptions,
+            timeout: secondsFlag(args, "timeout"),
+            pollingInterval: secondsFlag(args, "interval"),
+            onProgress: (progress) => {
+              if (progress.status !== lastStatus) {
+                lastStatus = progress.status;
+                log(
+                  `Talent run ${progress.runId}: ${WorkflowRunStatus.getStatusName(progress.status)}`
+                );
+              }
+            },
+          });
+          print(formatTalentResult(results), results);
+          return exitCodeForStatus(results.status);
+        }
+        case "results": {
+          const results = await client.getTalentResults(
+            requirePositional(args, 2, "runId")
+          );
+          print(formatTalentResult(results), results);
+          return exitCodeForStatus(results.status);
+        }
+        case "cancel": {
+          const results = await client.cancelTalentRun(
+            requirePositional(args, 2, "runId")
+          );
+          print(
+            formatRecord({
+              runId: results.runId,
+              status: WorkflowRunStatus.getStatusName(results.status),
+            }),
+            results
+          );
+          return ExitCode.SUCCESS;
+        }
+        default:
+          throw new UsageError("Usage: witrium talent run|results|cancel <id>");
+      }
+    }
+
+    case "sessions": {
+      switch (subcommand) {
+        case "list": {
+          const sessions = await client.listBrowserSessions();
+          print(
+            formatTable(sessions.sessions, [
+              "uuid",
+              "provider",
+              "status",
+              "isBusy",
+              "currentRunId",
+              "createdAt",
+            ]),
+            sessions
+          );
+          return ExitCode.SUCCESS;
+        }
+        case "get": {
+          const session = await client.getBrowserSession(
+            requirePositional(args, 2, "sessionId")
+          );
+          print(formatRecord({ ...session }), session);
+          return ExitCode.SUCCESS;
+        }
+        case "close": {
+          const closed = await client.closeBrowserSession(
+            requirePositional(args, 2, "sessionId"),
+            {
+              force: args.flags.force === true ? true : undefined,
+              preserveState: stringFlag(args, "preserve-state"),
+            }
+          );
+          print(formatRecord({ ...closed }), closed);
+          return ExitCode.SUCCESS;
+        }
+        default:
+          throw new UsageError(
+            "Usage: witrium sessions list|get <sessionId>|close <sessionId>"
+          );
+      }
+    }
+
+    default:
+      throw new UsageError(`Unknown command '${command}'`);
+  }
+}
+
+/**
+ * Run the CLI with the given arguments (without `node` and the script path)
+ * and resolve with the process exit code.
+ */
+export async function main(argv: string[]): Promise<number> {
+  const stdout = (text: string) => process.stdout.write(`${text}\n`);
+  const stderr = (text: string) => process.stderr.write(`${text}\n`);
+
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    stderr(`${(error as Error).message}\n\n${USAGE}`);
+    return ExitCode.USAGE;
+  }
+  if (args.flags.version) {
+    stdout(SDK_VERSION);
+    return ExitCode.SUCCESS;
+  }
+  if (args.flags.help || args.positionals.length === 0) {
+    stdout(USAGE);
+    return args.flags.help ? ExitCode.SUCCESS : ExitCode.USAGE;
+  }
+
+  const json = args.flags.json === true;
+  const print = (human: string, value: unknown) =>
+    stdout(json ? JSON.stringify(value, null, 2) : human);
+  // Progress goes to stderr so stdout stays parseable
+  const log = json ? () => {} : stderr;
+
+  try {
+    return await runCommand(args, print, log);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      stderr(`${error.message}\n\n${USAGE}`);
+      return ExitCode.USAGE;
+    }
+    if (error instanceof WitriumTerminalStateException) {
+      stderr(error.message);
+      return exitCodeForStatus(error.status);
+    }
+    // Wait timeouts and HTTP request timeouts alike
+    if (error instanceof WitriumTimeoutException) {
+      stderr(error.message);
+      return ExitCode.TIMEOUT;
+    }
+    stderr(error instanceof Error ? error.message : String(error));
+    return ExitCode.ERROR;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -1,10 +1,12 @@
-import axios, { AxiosInstance } from "axios";
+import type { AxiosInstance, AxiosRequestConfig, Method } from "axios";
 import {
   WorkflowRunSubmitted,
   WorkflowRunResult,
   WorkflowRun,
   WorkflowStatus,
   TalentRunResult,
+  TalentRunSubmitted,
+  RunTalentAndWaitOptions,
   WorkflowRunOptions,
   TalentRunOptions,
   WaitUntilStateOptions,
@@ -13,37 +15,395 @@ import {
   BrowserSession,
   ListBrowserSession,
   BrowserSessionCloseOptions,
-} from "./types";
-import { WitriumClientException } from "./errors";
-import { AgentExecutionStatus, WorkflowRunStatus } from "./constants";
+  RetryOptions,
+  RequestOptions,
+  WitriumClientOptions,
+  WatchRunOptions,
+  RunEvent,
+  RunWorkflowBatchOptions,
+  BatchRunOutcome,
+  WorkflowBatchResult,
+  WorkflowResult,
+  WorkflowRegistry,
+  TypedWorkflowClient,
+  ListBrowserSessionsOptions,
+  ListRunsOptions,
+  ListWorkflowRuns,
+  WorkflowDefinition,
+  TalentDefinition,
+  ListWorkflowsOptions,
+  ListWorkflows,
+  ListTalentsOptions,
+  ListTalents,
+  BrowserState,
+  EnsureStateOptions,
+  WitriumMiddleware,
+  WitriumRequest,
+  WitriumClientEvents,
+  Tracer,
+  RequestPriority,
+  TokenProvider,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  RunStore,
+  TrackedRun,
+  ResumePendingRunsOptions,
+  Clock,
+} from "./types.js";
+import {
+  WitriumClientException,
+  WitriumClientExceptionOptions,
+  WitriumAuthenticationException,
+  WitriumNotFoundException,
+  WitriumValidationException,
+  WitriumRateLimitException,
+  WitriumServerException,
+  WitriumNetworkException,
+  WitriumTimeoutException,
+  WitriumTerminalStateException,
+  WitriumAbortException,
+} from "./errors.js";
+import {
+  AgentExecutionStatus,
+  WorkflowRunStatus,
+  SDK_VERSION,
+} from "./constants.js";
+import {
+  DEFAULT_RETRY_OPTIONS,
+  resolveRetryPolicy,
+  parseRetryAfter,
+  isRetryableError,
+  computeRetryDelay,
+} from "./retry.js";
+import {
+  sleep,
+  throwIfAborted,
+  abortException,
+  transformKeysToCamelCase,
+  redactHeaders,
+  redactError,
+  isRequestError,
+  isCancelError,
+  API_KEY_HEADER,
+  bufferErrorBody,
+  systemClock,
+} from "./utils.js";
+import { diffRunResults } from "./watch.js";
+import { RunPoller, fixedPolling } from "./polling.js";
+import { validateRunResults } from "./validation.js";
+import { buildRunRequestBody, DEFAULT_MULTIPART_THRESHOLD } from "./files.js";
+import { paginate } from "./pagination.js";
+import { StatesClient, StatesRequest } from "./states.js";
+import { ArtifactsClient } from "./artifacts.js";
+import { withSpan } from "./tracing.js";
+import { RateLimiter } from "./ratelimit.js";
+import { createSessionScope } from "./scope.js";
+import { TransportError, buildUrl } from "./transport.js";
 
 const DEFAULT_BASE_URL = "https://api.witrium.com";
 const DEFAULT_TIMEOUT = 0; // 0 = no timeout (infinite)
 
+// Public methods wrapped in a span when a tracer is configured
+const TRACED_METHODS = [
+  "runWorkflow",
+  "getWorkflowResults",
+  "runWorkflowAndWait",
+  "runWorkflowBatch",
+  "resumePendingRuns",
+  "waitUntilState",
+  "listRuns",
+  "getRun",
+  "cancelRun",
+  "listWorkflows",
+  "getWorkflow",
+  "ensureState",
+  "runTalent",
+  "getTalentResults",
+  "runTalentAndWait",
+  "cancelTalentRun",
+  "listTalents",
+  "getTalent",
+  "createBrowserSession",
+  "listBrowserSessions",
+  "getBrowserSession",
+  "closeBrowserSession",
+  "withBrowserSession",
+  "closeLeakedSessions",
+] as const satisfies readonly (keyof WitriumClient)[];
+
+type EventListener<K extends keyof WitriumClientEvents> = (
+  payload: WitriumClientEvents[K]
+) => void;
+
+function readEnv(name: string): string | undefined {
+  return typeof process !== "undefined" ? process.env?.[name] : undefined;
+}
+
 export class WitriumClient {
-  private client: AxiosInstance;
-  private _activeSessionId: string | null = null;
+  // Created on the first request sent without a transport
+  private client: Promise<AxiosInstance> | null = null;
+  private _axiosOptions: Pick<
+    WitriumClientOptions,
+    "axiosInstance" | "httpAgent" | "httpsAgent" | "adapter"
+  >;
+  // Active session follows the async context, so concurrent scopes on one
+  // client do not overwrite each other
+  private _sessionScope = createSessionScope();
+  private _retryPolicy: Required<RetryOptions>;
+  private _requestDefaults: AxiosRequestConfig;
+  private _poller: RunPoller | null = null;
+  private _clock: Clock;
+  private _multipartThreshold: number;
+  private _ensuringStates = new Map<string, Promise<BrowserState>>();
+  private _middleware: WitriumMiddleware[];
+  private _tracer?: Tracer;
+  private _listeners = new Map<
+    keyof WitriumClientEvents,
+    Set<EventListener<any>>
+  >();
+  // Last status seen per non-terminal run, to detect status changes
+  private _runStatuses = new Map<string, WorkflowStatus>();
+  private _transport?: Transport;
+  private _tokenProvider?: TokenProvider;
+  private _token?: Promise<string>;
+  private _runStore?: RunStore;
+
+  /** Saved browser states used by `useStates` and `preserveState`. */
+  readonly states: StatesClient;
+  /** Recordings, screenshots and files produced by runs and sessions. */
+  readonly artifacts: ArtifactsClient;
+  /** Limiter every request goes through, if `rateLimit` was configured. */
+  readonly rateLimiter: RateLimiter | null;
+
+  constructor(options?: WitriumClientOptions);
+  constructor(apiToken: string, options?: WitriumClientOptions);
+  constructor(apiToken: string, timeout?: number, retry?: RetryOptions | false);
+  constructor(
+    apiTokenOrOptions: string | WitriumClientOptions = {},
+    timeoutOrOptions: number | WitriumClientOptions = DEFAULT_TIMEOUT,
+    retry?: RetryOptions | false
+  ) {
+    // Normalize the positional (apiToken, timeout, retry) form into options
+    let options: WitriumClientOptions;
+    if (typeof apiTokenOrOptions !== "string") {
+      options = apiTokenOrOptions;
+    } else if (typeof timeoutOrOptions === "number") {
+      options = { apiToken: apiTokenOrOptions, timeout: timeoutOrOptions };
+      if (retry !== undefined) options.retry = retry;
+    } else {
+      options = { ...timeoutOrOptions, apiToken: apiTokenOrOptions };
+    }
 
-  constructor(apiToken: string, timeout: number = DEFAULT_TIMEOUT) {
-    this.client = axios.create({
-      baseURL: DEFAULT_BASE_URL.replace(/\/$/, ""),
-      timeout: timeout, // 0 means no timeout
+    const apiToken = options.apiToken ?? readEnv("WITRIUM_API_KEY");
+    if (!apiToken) {
+      throw new WitriumClientException(
+        "No API token provided. Pass apiToken or set the WITRIUM_API_KEY environment variable."
+      );
+    }
+
+    const baseURL =
+      options.baseURL ??
+      readEnv("WITRIUM_BASE_URL") ??
+      options.axiosInstance?.defaults.baseURL ??
+      DEFAULT_BASE_URL;
+    const userAgent = options.userAgentSuffix
+      ? `witrium-js/${SDK_VERSION} ${options.userAgentSuffix}`
+      : `witrium-js/${SDK_VERSION}`;
+
+    this._retryPolicy = resolveRetryPolicy(
+      DEFAULT_RETRY_OPTIONS,
+      options.retry
+    );
+    // Applied per request so a caller-supplied axios instance gets them too
+    this._requestDefaults = {
+      baseURL: baseURL.replace(/\/$/, ""),
+      timeout: options.timeout ?? DEFAULT_TIMEOUT, // 0 means no timeout
       headers: {
-        "X-Witrium-Key": apiToken,
+        "User-Agent": userAgent,
+        ...options.headers,
+        ...(typeof apiToken === "string" && { [API_KEY_HEADER]: apiToken }),
         "Content-Type": "application/json",
       },
+    };
+    if (typeof apiToken === "function") {
+      this._tokenProvider = apiToken;
+    }
+    this._transport = options.transport;
+    this._runStore = options.runStore;
+    this._multipartThreshold =
+      options.multipartThreshold ?? DEFAULT_MULTIPART_THRESHOLD;
+    this._middleware = [...(options.middleware ?? [])];
+    if (options.rateLimit === undefined) {
+      this.rateLimiter = null;
+    } else if (options.rateLimit instanceof RateLimiter) {
+      this.rateLimiter = options.rateLimit;
+    } else {
+      this.rateLimiter = new RateLimiter(options.rateLimit);
+    }
+    this._tracer = options.tracer;
+    this._clock = options.clock ?? systemClock;
+    if (this._tracer) {
+      this._traceMethods(this._tracer);
+    }
+    if (options.sharedPolling) {
+      this._poller = new RunPoller(
+        (runId, options) => this.getWorkflowResults(runId, options),
+        options.sharedPolling === true ? {} : options.sharedPolling,
+        this._clock
+      );
+    }
+    this._axiosOptions = options;
+    const send: StatesRequest = async (method, url, action, options) => {
+      try {
+        const data = await this._request(method, url, {
+          data: options.data,
+          params: options.params,
+          retry: options.retry,
+          timeout: options.requestTimeout,
+          signal: options.signal,
+        });
+        return transformKeysToCamelCase(data);
+      } catch (error) {
+        throw await this._toClientException(error, action);
+      }
+    };
+    this.states = new StatesClient(send);
+    this.artifacts = new ArtifactsClient(send, async (url, action, options) => {
+      try {
+        return await this._request("get", url, {
+          retry: options.retry,
+          timeout: options.requestTimeout,
+          signal: options.signal,
+          priority: "low",
+          responseType: "stream",
+        });
+      } catch (error) {
+        await bufferErrorBody(error);
+        throw await this._toClientException(error, action);
+      }
     });
   }
 
+  /**
+   * Add a middleware that sees every HTTP attempt the client makes.
+   */
+  use(middleware: WitriumMiddleware): this {
+    this._middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Subscribe to a client event. Returns a function that unsubscribes.
+   */
+  on<K extends keyof WitriumClientEvents>(
+    event: K,
+    listener: EventListener<K>
+  ): () => void {
+    let listeners = this._listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this._listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof WitriumClientEvents>(
+    event: K,
+    listener: EventListener<K>
+  ): void {
+    this._listeners.get(event)?.delete(listener);
+  }
+
+  private _emit<K extends keyof WitriumClientEvents>(
+    event: K,
+    payload: WitriumClientEvents[K]
+  ): void {
+    for (const listener of this._listeners.get(event) ?? []) {
+      try {
+        listener(payload);
+      } catch {
+        // A failing listener must not fail the API call that emitted
+      }
+    }
+  }
+
+  /**
+   * Record a polled status, emitting `poll` and `statusChange` events.
+   */
+  private _trackStatus(runId: string, results: WorkflowRunResult): void {
+    this._emit("poll", { runId, results });
+    const previousStatus = this._runStatuses.get(runId) ?? null;
+    if (WorkflowRunStatus.TERMINAL_STATUSES.includes(results.status as any)) {
+      this._runStatuses.delete(runId);
+    } else {
+      this._runStatuses.set(runId, results.status);
+    }
+    if (previousStatus !== results.status) {
+      this._emit("statusChange", {
+        runId,
+        previousStatus,
+        status: results.status,
+      });
+    }
+  }
+
+  /**
+   * Write to the run store, if there is one. A failed write is reported
+   * through the `runStoreError` event rather than thrown, so it never fails
+   * (and invites a retry of) an API call that already succeeded.
+   */
+  private async _writeStore(
+    operation: WitriumClientEvents["runStoreError"]["operation"],
+    ids: { runId?: string; sessionId?: string },
+    write: (store: RunStore) => Promise<void>
+  ): Promise<void> {
+    if (!this._runStore) return;
+    try {
+      await write(this._runStore);
+    } catch (error) {
+      this._emit("runStoreError", { operation, ...ids, error });
+    }
+  }
+
+  /**
+   * Save the latest results of a run the run store tracks, when they changed.
+   */
+  private async _recordResults(
+    store: RunStore,
+    runId: string,
+    results: WorkflowRunResult | TalentRunResult
+  ): Promise<void> {
+    const run = await store.getRun(runId);
+    if (!run || JSON.stringify(run.lastResult) === JSON.stringify(results)) {
+      return;
+    }
+    await store.saveRun({
+      ...run,
+      status: results.status,
+      updatedAt: new Date().toISOString(),
+      lastResult: results,
+    } as TrackedRun);
+  }
+
+  private _traceMethods(tracer: Tracer): void {
+    for (const name of TRACED_METHODS) {
+      const method = this[name] as (...args: unknown[]) => Promise<unknown>;
+      (this as any)[name] = (...args: unknown[]) =>
+        withSpan(tracer, `witrium.${name}`, {}, () => method.apply(this, args));
+    }
+  }
+
   /**
    * Get the current active session ID (set by withBrowserSession)
    */
   get sessionId(): string | null {
-    return this._activeSessionId;
+    return this._sessionScope.getStore() ?? null;
   }
 
   private async _extractErrorDetail(error: any): Promise<string> {
-    if (axios.isAxiosError(error) && error.response) {
+    if (isRequestError(error) && error.response) {
       const data = error.response.data;
       if (data && typeof data.detail === "string") {
         return data.detail;
@@ -53,28 +413,270 @@ export class WitriumClient {
     return error.message || "Unknown error";
   }
 
-  private _toCamelCase(str: string): string {
-    return str.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
+  /**
+   * Map a failed request onto the matching WitriumClientException subclass.
+   */
+  private async _toClientException(
+    error: any,
+    action: string,
+    runId?: string
+  ): Promise<WitriumClientException> {
+    if (error instanceof WitriumAbortException || isCancelError(error)) {
+      const config = isRequestError(error) ? error.config : undefined;
+      return new WitriumAbortException(`${action}: operation was aborted`, {
+        runId,
+        method: config?.method?.toUpperCase(),
+        url: config?.url,
+        cause: error,
+      });
+    }
+
+    const errorDetail = await this._extractErrorDetail(error);
+    const statusCode = isRequestError(error)
+      ? error.response?.status
+      : undefined;
+    const message = `${action}: ${errorDetail} (Status code: ${statusCode ?? "unknown"})`;
+
+    const options: WitriumClientExceptionOptions = {
+      statusCode,
+      runId,
+      cause: error,
+    };
+    // The original error is kept as `cause`, so keep the token out of it
+    redactError(error);
+    if (isRequestError(error)) {
+      const data = error.response?.data;
+      options.detail =
+        data && typeof data === "object" && "detail" in data
+          ? data.detail
+          : data;
+      options.method = error.config?.method?.toUpperCase();
+      options.url = error.config?.url;
+    }
+
+    if (!isRequestError(error)) {
+      return new WitriumClientException(message, options);
+    }
+    if (!error.response) {
+      if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+        return new WitriumTimeoutException(message, options);
+      }
+      return new WitriumNetworkException(message, options);
+    }
+    if (statusCode === 401 || statusCode === 403) {
+      return new WitriumAuthenticationException(message, options);
+    }
+    if (statusCode === 404) {
+      return new WitriumNotFoundException(message, options);
+    }
+    if (statusCode === 400 || statusCode === 422) {
+      return new WitriumValidationException(message, options);
+    }
+    if (statusCode === 429) {
+      return new WitriumRateLimitException(message, {
+        ...options,
+        retryAfter: parseRetryAfter(error.response.headers?.["retry-after"]),
+      });
+    }
+    if (statusCode !== undefined && statusCode >= 500) {
+      return new WitriumServerException(message, options);
+    }
+    return new WitriumClientException(message, options);
   }
 
-  private _transformKeysToCamelCase(obj: any): any {
-    if (obj === null || obj === undefined) {
-      return obj;
+  /**
+   * Send a request, retrying transient failures according to the retry policy.
+   * Methods outside `retryMethods` are only retried when marked idempotent or
+   * sent with an idempotency key, so a submission is never duplicated.
+   */
+  private async _request(
+    method: Method,
+    url: string,
+    options: {
+      data?: unknown;
+      params?: Record<string, unknown>;
+      retry?: RetryOptions | false;
+      timeout?: number;
+      signal?: AbortSignal;
+      idempotent?: boolean;
+      idempotencyKey?: string;
+      priority?: RequestPriority;
+      responseType?: "stream";
+    } = {}
+  ): Promise<any> {
+    const policy = resolveRetryPolicy(this._retryPolicy, options.retry);
+    const headers: Record<string, string> = {
+      ...(this._requestDefaults.headers as Record<string, string>),
+    };
+    if (options.idempotencyKey !== undefined) {
+      headers["Idempotency-Key"] = options.idempotencyKey;
     }
-    if (Array.isArray(obj)) {
-      return obj.map((item) => this._transformKeysToCamelCase(item));
+    if (typeof FormData !== "undefined" && options.data instanceof FormData) {
+      // Let axios set the multipart boundary
+      delete headers["Content-Type"];
     }
-    if (typeof obj === "object" && obj.constructor === Object) {
-      const transformed: Record<string, any> = {};
-      for (const key in obj) {
-        if (obj.hasOwnProperty(key)) {
-          const camelKey = this._toCamelCase(key);
-          transformed[camelKey] = this._transformKeysToCamelCase(obj[key]);
+    const canRetry =
+      policy.retryMethods.includes(method.toUpperCase()) ||
+      options.idempotent === true ||
+      options.idempotencyKey !== undefined;
+    let token = this._tokenProvider ? this._getToken() : undefined;
+    let refreshedToken = false;
+
+    for (let attempt = 1; ; attempt++) {
+      if (token) {
+        headers[API_KEY_HEADER] = await token;
+      }
+      // Middleware sees a redacted copy; its changes are sent with the token
+      const request: WitriumRequest = {
+        method: method.toUpperCase(),
+        url,
+        params: options.params,
+        data: options.data,
+        headers: redactHeaders(headers),
+        attempt,
+      };
+      for (const middleware of this._middleware) {
+        await middleware.onRequest?.(request);
+      }
+
+      const release = await this.rateLimiter?.acquire(
+        options.priority,
+        options.signal
+      );
+      const startTime = Date.now();
+      let response: TransportResponse;
+      try {
+        response = await this._send({
+          ...this._requestDefaults,
+          method,
+          url,
+          params: request.params,
+          data: request.data,
+          headers: {
+            ...request.headers,
+            [API_KEY_HEADER]: headers[API_KEY_HEADER],
+          },
+          timeout: options.timeout ?? this._requestDefaults.timeout,
+          signal: options.signal,
+          responseType: options.responseType,
+        });
+      } catch (error) {
+        release?.();
+        // Middleware and callers only ever see the error without the token
+        redactError(error);
+        if (
+          token &&
+          !refreshedToken &&
+          isRequestError(error) &&
+          error.response?.status === 401
+        ) {
+          // The token expired or was revoked: fetch a new one and resend once
+          refreshedToken = true;
+          token = this._getToken(token);
+          attempt--;
+          continue;
+        }
+        const willRetry =
+          canRetry &&
+          attempt < policy.maxAttempts &&
+          isRetryableError(error, policy);
+        for (const middleware of this._middleware) {
+          await middleware.onError?.({
+            request,
+            error,
+            status: isRequestError(error) ? error.response?.status : undefined,
+            duration: Date.now() - startTime,
+            willRetry,
+          });
         }
+        if (!willRetry) {
+          throw error;
+        }
+        const delay = computeRetryDelay(error, attempt, policy);
+        await sleep(delay, options.signal);
+        continue;
       }
-      return transformed;
+      release?.();
+
+      for (const middleware of this._middleware) {
+        await middleware.onResponse?.({
+          request,
+          status: response.status,
+          headers: redactHeaders({ ...response.headers }),
+          data: response.data,
+          duration: Date.now() - startTime,
+        });
+      }
+      return response.data;
+    }
+  }
+
+  /**
+   * Resolve the token from the provider, sharing one call between concurrent
+   * requests. Passing the token a request was rejected with refreshes it,
+   * unless another request already did.
+   */
+  private _getToken(rejected?: Promise<string>): Promise<string> {
+    if (!this._token || (rejected && this._token === rejected)) {
+      const token = Promise.resolve(
+        this._tokenProvider!({ refresh: rejected !== undefined })
+      );
+      token.catch(() => {
+        // Ask the provider again on the next request
+        if (this._token === token) this._token = undefined;
+      });
+      this._token = token;
     }
-    return obj;
+    return this._token;
+  }
+
+  /**
+   * The axios instance requests go through when there is no transport.
+   * axios is imported on first use, so clients with a transport never load
+   * it.
+   */
+  private _getAxios(): Promise<AxiosInstance> {
+    const { axiosInstance, httpAgent, httpsAgent, adapter } =
+      this._axiosOptions;
+    this.client ??= axiosInstance
+      ? Promise.resolve(axiosInstance)
+      : import("axios").then(({ default: axios }) =>
+          axios.create({ httpAgent, httpsAgent, adapter })
+        );
+    return this.client;
+  }
+
+  /**
+   * Send one HTTP attempt through the configured transport, or axios.
+   */
+  private async _send(config: AxiosRequestConfig): Promise<TransportResponse> {
+    if (!this._transport) {
+      const client = await this._getAxios();
+      const response = await client.request(config);
+      return {
+        status: response.status,
+        headers: { ...response.headers } as Record<string, string>,
+        data: response.data,
+      };
+    }
+    const request: TransportRequest = {
+      method: config.method!.toUpperCase(),
+      url: buildUrl(config.baseURL!, config.url!, config.params),
+      headers: config.headers as Record<string, string>,
+      body: config.data,
+      timeout: config.timeout ?? 0,
+      signal: config.signal as AbortSignal | undefined,
+      responseType: config.responseType === "stream" ? "stream" : undefined,
+    };
+    const response = await this._transport(request);
+    if (response.status >= 400) {
+      throw new TransportError(
+        `Request failed with status code ${response.status}`,
+        request,
+        { response }
+      );
+    }
+    return response;
   }
 
   async runWorkflow(
@@ -85,12 +687,13 @@ export class WitriumClient {
     try {
       // Auto-inject active session ID if not explicitly provided
       const browserSessionId =
-        options.browserSessionId ?? this._activeSessionId;
+        options.browserSessionId !== undefined
+          ? options.browserSessionId
+          : this.sessionId;
 
       // Build payload with snake_case keys for the server
       const payload: Record<string, any> = {};
       if (options.args !== undefined) payload.args = options.args;
-      if (options.files !== undefined) payload.files = options.files;
       if (options.useStates !== undefined)
         payload.use_states = options.useStates;
       if (options.preserveState !== undefined)
@@ -103,46 +706,76 @@ export class WitriumClient {
         payload.browser_session_id = browserSessionId;
       if (options.skipGotoUrlInstruction !== undefined)
         payload.skip_goto_url_instruction = options.skipGotoUrlInstruction;
+      if (options.webhookUrl !== undefined)
+        payload.webhook_url = options.webhookUrl;
 
-      const response = await this.client.post(url, payload);
-      return this._transformKeysToCamelCase(response.data);
-    } catch (error) {
-      const errorDetail = await this._extractErrorDetail(error);
-      const statusCode = axios.isAxiosError(error)
-        ? error.response?.status
-        : "unknown";
-      throw new WitriumClientException(
-        `Error running workflow: ${errorDetail} (Status code: ${statusCode})`
+      const data = await this._request("post", url, {
+        data: buildRunRequestBody(
+          payload,
+          options.files,
+          this._multipartThreshold
+        ),
+        retry: options.retry,
+        timeout: options.requestTimeout,
+        signal: options.signal,
+        priority: "high",
+        idempotencyKey: options.idempotencyKey,
+      });
+      const submitted: WorkflowRunSubmitted = transformKeysToCamelCase(data);
+      this._emit("runSubmitted", {
+        workflowId,
+        runId: submitted.runId,
+        status: submitted.status,
+      });
+      const now = new Date().toISOString();
+      await this._writeStore("saveRun", { runId: submitted.runId }, (store) =>
+        store.saveRun({
+          kind: "workflow",
+          runId: submitted.runId,
+          workflowId,
+          args: options.args,
+          status: submitted.status,
+          submittedAt: now,
+          updatedAt: now,
+        })
       );
+      return submitted;
+    } catch (error) {
+      throw await this._toClientException(error, "Error running workflow");
     }
   }
 
-  async getWorkflowResults(runId: string): Promise<WorkflowRunResult> {
+  async getWorkflowResults(
+    runId: string,
+    options: RequestOptions = {}
+  ): Promise<WorkflowRunResult> {
     const url = `/v1/runs/${runId}/results`;
     try {
-      const response = await this.client.get(url);
-      return this._transformKeysToCamelCase(response.data);
+      const data = await this._request("get", url, {
+        retry: options.retry,
+        timeout: options.requestTimeout,
+        signal: options.signal,
+        priority: "low",
+      });
+      const results: WorkflowRunResult = transformKeysToCamelCase(data);
+      this._trackStatus(runId, results);
+      await this._writeStore("saveRun", { runId }, (store) =>
+        this._recordResults(store, runId, results)
+      );
+      return results;
     } catch (error) {
-      const errorDetail = await this._extractErrorDetail(error);
-      const statusCode = axios.isAxiosError(error)
-        ? error.response?.status
-        : "unknown";
-      throw new WitriumClientException(
-        `Error getting workflow results: ${errorDetail} (Status code: ${statusCode})`
+      throw await this._toClientException(
+        error,
+        "Error getting workflow results",
+        runId
       );
     }
   }
 
-  async runWorkflowAndWait(
+  async runWorkflowAndWait<TResult = WorkflowResult>(
     workflowId: string,
-    options: RunWorkflowAndWaitOptions = {}
-  ): Promise<WorkflowRunResult | WorkflowRunResult[]> {
-    const timeout = options.timeout; // undefined = poll forever
-    const pollingInterval = options.pollingInterval ?? 5000;
-    const returnIntermediateResults =
-      options.returnIntermediateResults ?? false;
-    const onProgress = options.onProgress ?? (() => {});
-
+    options: RunWorkflowAndWaitOptions<TResult> = {}
+  ): Promise<WorkflowRunResult<TResult> | WorkflowRunResult<TResult>[]> {
     const runResponse = await this.runWorkflow(workflowId, {
       args: options.args,
       files: options.files,
@@ -152,37 +785,312 @@ export class WitriumClient {
       recordSession: options.recordSession,
       browserSessionId: options.browserSessionId,
       skipGotoUrlInstruction: options.skipGotoUrlInstruction,
+      webhookUrl: options.webhookUrl,
+      idempotencyKey: options.idempotencyKey,
+      retry: options.retry,
+      requestTimeout: options.requestTimeout,
+      signal: options.signal,
     });
-    const { runId } = runResponse;
-    const startTime = Date.now();
-    const intermediateResults: WorkflowRunResult[] = [];
+    const results = await this._waitForTerminal(runResponse.runId, options);
+    if (options.artifactsDirectory !== undefined) {
+      await this.artifacts.downloadAll(
+        { runId: runResponse.runId },
+        options.artifactsDirectory,
+        {
+          retry: options.retry,
+          requestTimeout: options.requestTimeout,
+          signal: options.signal,
+        }
+      );
+    }
+    return results;
+  }
 
-    while (true) {
-      // Check timeout if specified
-      if (timeout !== undefined && Date.now() - startTime >= timeout) {
-        throw new WitriumClientException(
-          `Workflow execution timed out after ${timeout / 1000} seconds`
-        );
-      }
+  /**
+   * Run the same workflow once per args object, at most `concurrency` at a
+   * time. Outcomes are returned in input order. When the batch is aborted or
+   * stopped by a failure (`stopOnFailure`, or rejected credentials), the
+   * outstanding runs are cancelled and the remaining items are not started.
+   * Runs that exceed `perRunTimeout` are cancelled too. Errors thrown by
+   * `onRunComplete` are ignored.
+   */
+  async runWorkflowBatch(
+    workflowId: string,
+    argsList: Record<string, string | number>[],
+    options: RunWorkflowBatchOptions = {}
+  ): Promise<WorkflowBatchResult> {
+    const {
+      concurrency = 5,
+      stopOnFailure = false,
+      perRunTimeout,
+      onRunComplete,
+      signal,
+      ...runOptions
+    } = options;
+    throwIfAborted(signal);
 
-      const results = await this.getWorkflowResults(runId);
+    // Internal controller so a failure can stop the batch as well as the caller
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
 
-      if (returnIntermediateResults) {
-        intermediateResults.push(results);
-      }
+    const outcomes: BatchRunOutcome[] = new Array(argsList.length);
+    let next = 0;
+
+    const runItem = async (index: number): Promise<BatchRunOutcome> => {
+      const args = argsList[index];
+      let runId: string | undefined;
+      try {
+        const submitted = await this.runWorkflow(workflowId, {
+          ...runOptions,
+          args,
+          signal: controller.signal,
+        });
+        runId = submitted.runId;
+        const result = (await this._waitForTerminal(runId, {
+          ...runOptions,
+          timeout: perRunTimeout,
+          cancelOnAbort: true,
+          signal: controller.signal,
+        })) as WorkflowRunResult;
 
-      if (onProgress) {
-        onProgress(results);
+        if (result.status === WorkflowRunStatus.COMPLETED) {
+          return { index, args, status: "completed", runId, result };
+        }
+        return {
+          index,
+          args,
+          status:
+            result.status === WorkflowRunStatus.CANCELLED
+              ? "cancelled"
+              : "failed",
+          runId,
+          result,
+          errorMessage: result.errorMessage,
+        };
+      } catch (error) {
+        const err = error as Error;
+        let errorMessage = err.message;
+        let status: BatchRunOutcome["status"] = "failed";
+        if (error instanceof WitriumAbortException) status = "cancelled";
+        else if (error instanceof WitriumTimeoutException) status = "timeout";
+        if (error instanceof WitriumAuthenticationException) {
+          controller.abort(error);
+        }
+        // A timed-out run would keep running past the slot it frees
+        if (status === "timeout" && runId !== undefined) {
+          try {
+            await this.cancelRun(runId, {
+              retry: runOptions.retry,
+              requestTimeout: runOptions.requestTimeout,
+            });
+          } catch (cancelError) {
+            errorMessage += `; cancelling the run failed: ${(cancelError as Error).message}`;
+          }
+        }
+        return {
+          index,
+          args,
+          status,
+          runId,
+          errorMessage,
+          error: err,
+        };
       }
+    };
 
-      if (WorkflowRunStatus.TERMINAL_STATUSES.includes(results.status as any)) {
-        return returnIntermediateResults ? intermediateResults : results;
+    const worker = async (): Promise<void> => {
+      while (next < argsList.length) {
+        const index = next++;
+        const outcome: BatchRunOutcome = controller.signal.aborted
+          ? {
+              index,
+              args: argsList[index],
+              status: "cancelled",
+              errorMessage: "Batch was stopped before this run started",
+            }
+          : await runItem(index);
+        outcomes[index] = outcome;
+        if (
+          stopOnFailure &&
+          (outcome.status === "failed" || outcome.status === "timeout")
+        ) {
+          controller.abort(outcome.error);
+        }
+        try {
+          onRunComplete?.(outcome);
+        } catch {
+          // A failing callback must not stop the batch
+        }
       }
+    };
+
+    try {
+      await Promise.all(
+        Array.from(
+          { length: Math.max(1, Math.min(concurrency, argsList.length)) },
+          worker
+        )
+      );
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+
+    if (signal?.aborted) {
+      throw abortException(signal);
+    }
+
+    const count = (status: BatchRunOutcome["status"]) =>
+      outcomes.filter((outcome) => outcome.status === status).length;
+    return {
+      outcomes,
+      summary: {
+        total: argsList.length,
+        completed: count("completed"),
+        failed: count("failed"),
+        timedOut: count("timeout"),
+        cancelled: count("cancelled"),
+      },
+    };
+  }
+
+  /**
+   * Reattach to every workflow and talent run in the run store that was not
+   * seen finishing, for example after a restart, and wait for all of them.
+   * Completions go through `onComplete`, and for workflow runs through the
+   * `runComplete` event, as for any other wait. Runs the API no longer knows
+   * are dropped from the store.
+   */
+  async resumePendingRuns(
+    options: ResumePendingRunsOptions = {}
+  ): Promise<(WorkflowRunResult | TalentRunResult)[]> {
+    const store = this._runStore;
+    if (!store) {
+      throw new WitriumClientException(
+        "resumePendingRuns() needs a client created with the runStore option"
+      );
+    }
+    const { onComplete, signal, ...waitOptions } = options;
+    const pending = (await store.listRuns()).filter(
+      (run) => !WorkflowRunStatus.TERMINAL_STATUSES.includes(run.status as any)
+    );
+
+    // Internal controller so one failure stops the other waits
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
 
-      await new Promise((resolve) => setTimeout(resolve, pollingInterval));
+    try {
+      const results = await Promise.all(
+        pending.map(async (run) => {
+          try {
+            const results =
+              run.kind === "talent"
+                ? await this._waitForTalent(run.runId, {
+                    ...waitOptions,
+                    signal: controller.signal,
+                  })
+                : ((await this._waitForTerminal(run.runId, {
+                    ...waitOptions,
+                    signal: controller.signal,
+                  })) as WorkflowRunResult);
+            onComplete?.(results, run);
+            return results;
+          } catch (error) {
+            if (error instanceof WitriumNotFoundException) {
+              await store.deleteRun(run.runId);
+              return undefined;
+            }
+            controller.abort(error);
+            throw error;
+          }
+        })
+      );
+      return results.filter(
+        (results): results is WorkflowRunResult | TalentRunResult =>
+          results !== undefined
+      );
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
     }
   }
 
+  /**
+   * Poll a submitted run until it reaches a terminal status.
+   */
+  private async _waitForTerminal<TResult>(
+    runId: string,
+    options: RunWorkflowAndWaitOptions<TResult>
+  ): Promise<WorkflowRunResult<TResult> | WorkflowRunResult<TResult>[]> {
+    const timeout = options.timeout; // undefined = poll forever
+    const pollingStrategy =
+      options.pollingStrategy ?? fixedPolling(options.pollingInterval ?? 5000);
+    const returnIntermediateResults =
+      options.returnIntermediateResults ?? false;
+    const onProgress = options.onProgress ?? (() => {});
+
+    const startTime = this._clock.now();
+    const intermediateResults: WorkflowRunResult<TResult>[] = [];
+    let attempt = 0;
+
+    return this._pollingLoop(runId, options.cancelOnAbort, async () => {
+      while (true) {
+        // Check timeout if specified
+        if (timeout !== undefined && this._clock.now() - startTime >= timeout) {
+          throw new WitriumTimeoutException(
+            `Workflow execution timed out after ${timeout / 1000} seconds`,
+            { runId }
+          );
+        }
+
+        const results = (await this._pollResults(
+          runId,
+          options
+        )) as WorkflowRunResult<TResult>;
+
+        if (returnIntermediateResults) {
+          intermediateResults.push(results);
+        }
+
+        if (onProgress) {
+          onProgress(results);
+        }
+
+        if (
+          WorkflowRunStatus.TERMINAL_STATUSES.includes(results.status as any)
+        ) {
+          this._emit("runComplete", {
+            runId,
+            workflowId: results.workflowId,
+            results: results as WorkflowRunResult,
+          });
+          // Only a completed run is expected to carry a well-formed result
+          const final =
+            results.status === WorkflowRunStatus.COMPLETED
+              ? validateRunResults(
+                  results,
+                  options.resultSchema,
+                  options.executionResultSchemas
+                )
+              : results;
+          if (returnIntermediateResults) {
+            intermediateResults[intermediateResults.length - 1] = final;
+            return intermediateResults;
+          }
+          return final;
+        }
+
+        attempt++;
+        const delay = pollingStrategy({
+          attempt,
+          elapsed: this._clock.now() - startTime,
+          lastStatus: results.status,
+        });
+        await sleep(delay, options.signal, runId, this._clock);
+      }
+    });
+  }
+
   async waitUntilState(
     runId: string,
     targetStatus: WorkflowStatus,
@@ -190,15 +1098,10 @@ export class WitriumClient {
   ): Promise<WorkflowRunResult> {
     const allInstructionsExecuted = options.allInstructionsExecuted ?? false;
     const minWaitTime = options.minWaitTime ?? 0;
-    const pollingInterval = options.pollingInterval ?? 2000;
+    const pollingStrategy =
+      options.pollingStrategy ?? fixedPolling(options.pollingInterval ?? 2000);
     const timeout = options.timeout; // undefined = poll forever
 
-    if (minWaitTime > 0) {
-      await new Promise((resolve) => setTimeout(resolve, minWaitTime));
-    }
-
-    const startTime = Date.now();
-
     const checkAllExecutionsCompleted = (
       results: WorkflowRunResult
     ): boolean => {
@@ -211,96 +1114,599 @@ export class WitriumClient {
       );
     };
 
+    return this._pollingLoop(runId, options.cancelOnAbort, async () => {
+      if (minWaitTime > 0) {
+        await sleep(minWaitTime, options.signal, runId, this._clock);
+      }
+
+      const startTime = this._clock.now();
+      let attempt = 0;
+
+      while (true) {
+        // Check timeout if specified
+        if (timeout !== undefined && this._clock.now() - startTime >= timeout) {
+          const targetStatusName =
+            WorkflowRunStatus.getStatusName(targetStatus);
+          let conditionMsg = `status '${targetStatusName}'`;
+          if (allInstructionsExecuted) {
+            conditionMsg += " and all instructions executed";
+          }
+          throw new WitriumTimeoutException(
+            `Workflow run did not reach ${conditionMsg} within ${timeout / 1000} seconds`,
+            { runId }
+          );
+        }
+
+        const results = await this._pollResults(runId, options);
+
+        const statusReached = results.status === targetStatus;
+        const allExecutionsDone =
+          !allInstructionsExecuted || checkAllExecutionsCompleted(results);
+
+        if (statusReached && allExecutionsDone) {
+          return results;
+        }
+
+        if (
+          WorkflowRunStatus.TERMINAL_STATUSES.includes(results.status as any) &&
+          results.status !== targetStatus
+        ) {
+          const currentStatusName = WorkflowRunStatus.getStatusName(
+            results.status
+          );
+          const targetStatusName =
+            WorkflowRunStatus.getStatusName(targetStatus);
+          throw new WitriumTerminalStateException(
+            `Workflow run reached terminal status '${currentStatusName}' before reaching target status '${targetStatusName}'`,
+            { runId, status: results.status, targetStatus }
+          );
+        }
+
+        attempt++;
+        const delay = pollingStrategy({
+          attempt,
+          elapsed: this._clock.now() - startTime,
+          lastStatus: results.status,
+        });
+        await sleep(delay, options.signal, runId, this._clock);
+      }
+    });
+  }
+
+  /**
+   * Fetch a status snapshot for a polling loop, through the shared poller
+   * when the client has one.
+   */
+  private _pollResults(
+    runId: string,
+    options: RequestOptions
+  ): Promise<WorkflowRunResult> {
+    if (this._poller) {
+      return this._poller.poll(runId, {
+        retry: options.retry,
+        requestTimeout: options.requestTimeout,
+        signal: options.signal,
+      });
+    }
+    return this.getWorkflowResults(runId, {
+      retry: options.retry,
+      requestTimeout: options.requestTimeout,
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * Poll a run and yield an event for every change between snapshots,
+   * finishing after the run reaches a terminal status.
+   */
+  async *watchRun(
+    runId: string,
+    options: WatchRunOptions = {}
+  ): AsyncGenerator<RunEvent, void, undefined> {
+    const pollingStrategy =
+      options.pollingStrategy ?? fixedPolling(options.pollingInterval ?? 2000);
+    const timeout = options.timeout; // undefined = poll forever
+    const startTime = this._clock.now();
+    let previous: WorkflowRunResult | null = null;
+    let attempt = 0;
+
     while (true) {
       // Check timeout if specified
-      if (timeout !== undefined && Date.now() - startTime >= timeout) {
-        const targetStatusName = WorkflowRunStatus.getStatusName(targetStatus);
-        let conditionMsg = `status '${targetStatusName}'`;
-        if (allInstructionsExecuted) {
-          conditionMsg += " and all instructions executed";
-        }
-        throw new WitriumClientException(
-          `Workflow run did not reach ${conditionMsg} within ${timeout / 1000} seconds`
+      if (timeout !== undefined && this._clock.now() - startTime >= timeout) {
+        throw new WitriumTimeoutException(
+          `Workflow run did not finish within ${timeout / 1000} seconds`,
+          { runId }
         );
       }
 
-      const results = await this.getWorkflowResults(runId);
+      const results = await this._pollResults(runId, options);
 
-      const statusReached = results.status === targetStatus;
-      const allExecutionsDone =
-        !allInstructionsExecuted || checkAllExecutionsCompleted(results);
+      yield* diffRunResults(previous, results);
+      previous = results;
 
-      if (statusReached && allExecutionsDone) {
-        return results;
+      if (WorkflowRunStatus.TERMINAL_STATUSES.includes(results.status as any)) {
+        return;
       }
 
-      if (
-        WorkflowRunStatus.TERMINAL_STATUSES.includes(results.status as any) &&
-        results.status !== targetStatus
-      ) {
-        const currentStatusName = WorkflowRunStatus.getStatusName(
-          results.status
-        );
-        const targetStatusName = WorkflowRunStatus.getStatusName(targetStatus);
-        throw new WitriumClientException(
-          `Workflow run reached terminal status '${currentStatusName}' before reaching target status '${targetStatusName}'`
-        );
+      attempt++;
+      const delay = pollingStrategy({
+        attempt,
+        elapsed: this._clock.now() - startTime,
+        lastStatus: results.status,
+      });
+      await sleep(delay, options.signal, runId, this._clock);
+    }
+  }
+
+  /**
+   * Run a polling loop inside a `witrium.poll` span; when it is aborted and
+   * `cancelOnAbort` is set, cancel the server-side run before rethrowing.
+   */
+  private _pollingLoop<T>(
+    runId: string,
+    cancelOnAbort: boolean | undefined,
+    poll: () => Promise<T>,
+    cancel: () => Promise<unknown> = () => this.cancelRun(runId)
+  ): Promise<T> {
+    return withSpan(
+      this._tracer,
+      "witrium.poll",
+      { "witrium.run_id": runId },
+      async () => {
+        try {
+          return await poll();
+        } catch (error) {
+          if (cancelOnAbort && error instanceof WitriumAbortException) {
+            try {
+              await cancel();
+            } catch {
+              // Ignore cancellation errors so the abort is what surfaces
+            }
+          }
+          throw error;
+        }
       }
+    );
+  }
 
-      await new Promise((resolve) => setTimeout(resolve, pollingInterval));
+  async listRuns(options: ListRunsOptions = {}): Promise<ListWorkflowRuns> {
+    const url = "/v1/runs";
+    try {
+      // Build query params with snake_case keys for the server
+      const params: Record<string, unknown> = {};
+      if (options.workflowId !== undefined)
+        params.workflow_id = options.workflowId;
+      if (options.status !== undefined)
+        params.status = Array.isArray(options.status)
+          ? options.status.join(",")
+          : options.status;
+      if (options.triggeredBy !== undefined)
+        params.triggered_by = options.triggeredBy;
+      if (options.startedAfter !== undefined)
+        params.started_after = new Date(options.startedAfter).toISOString();
+      if (options.startedBefore !== undefined)
+        params.started_before = new Date(options.startedBefore).toISOString();
+      if (options.limit !== undefined) params.limit = options.limit;
+      if (options.offset !== undefined) params.offset = options.offset;
+
+      const data = await this._request("get", url, {
+        params,
+        retry: options.retry,
+        timeout: options.requestTimeout,
+        signal: options.signal,
+      });
+      return transformKeysToCamelCase(data);
+    } catch (error) {
+      throw await this._toClientException(error, "Error listing workflow runs");
+    }
+  }
+
+  /**
+   * Iterate over every run matching the filters, fetching pages as needed.
+   */
+  iterateRuns(
+    options: ListRunsOptions = {}
+  ): AsyncGenerator<WorkflowRun, void, undefined> {
+    return paginate(async (offset, limit) => {
+      const page = await this.listRuns({ ...options, offset, limit });
+      return { items: page.runs, totalCount: page.totalCount };
+    }, options);
+  }
+
+  async getRun(
+    runId: string,
+    options: RequestOptions = {}
+  ): Promise<WorkflowRun> {
+    const url = `/v1/runs/${runId}`;
+    try {
+      const data = await this._request("get", url, {
+        retry: options.retry,
+        timeout: options.requestTimeout,
+        signal: options.signal,
+      });
+      return transformKeysToCamelCase(data);
+    } catch (error) {
+      throw await this._toClientException(
+        error,
+        "Error getting workflow run",
+        runId
+      );
     }
   }
 
-  async cancelRun(runId: string): Promise<WorkflowRun> {
+  async cancelRun(
+    runId: string,
+    options: RequestOptions = {}
+  ): Promise<WorkflowRun> {
     const url = `/v1/runs/${runId}/cancel`;
     try {
-      const response = await this.client.post(url);
-      return this._transformKeysToCamelCase(response.data);
+      // Cancelling twice is harmless, so the POST is safe to retry
+      const data = await this._request("post", url, {
+        retry: options.retry,
+        timeout: options.requestTimeout,
+        signal: options.signal,
+        priority: "high",
+        idempotent: true,
+      });
+      return transformKeysToCamelCase(data);
     } catch (error) {
-      const errorDetail = await this._extractErrorDetail(error);
-      const statusCode = axios.isAxiosError(error)
-        ? error.response?.status
-        : "unknown";
-      throw new WitriumClientException(
-        `Error cancelling workflow run: ${errorDetail} (Status code: ${statusCode})`
+      throw await this._toClientException(
+        error,
+        "Error cancelling workflow run",
+        runId
+      );
+    }
+  }
+
+  async listWorkflows(
+    options: ListWorkflowsOptions = {}
+  ): Promise<ListWorkflows> {
+    const url = "/v1/workflows";
+    try {
+      const params: Record<string, unknown> = {};
+      if (options.search !== undefined) params.search = options.search;
+      if (options.limit !== undefined) params.limit = options.limit;
+      if (options.offset !== undefined) params.offset = options.offset;
+
+      const data = await this._request("get", url, {
+        params,
+        retry: options.retry,
+        timeout: options.requestTimeout,
+        signal: options.signal,
+      });
+      return transformKeysToCamelCase(data);
+    } catch (error) {
+      throw await this._toClientException(error, "Error listing workflows");
+    }
+  }
+
+  /**
+   * Iterate over every workflow in the project, fetching pages as needed.
+   */
+  iterateWorkflows(
+    options: ListWorkflowsOptions = {}
+  ): AsyncGenerator<WorkflowDefinition, void, undefined> {
+    return paginate(async (offset, limit) => {
+      const page = await this.listWorkflows({ ...options, offset, limit });
+      return { items: page.workflows, totalCount: page.totalCount };
+    }, options);
+  }
+
+  /**
+   * Fetch a workflow with its declared arguments, expected files and
+   * instructions. Pass it to `validateArgs()` to check arguments before
+   * running the workflow.
+   */
+  async getWorkflow(
+    workflowId: string,
+    options: RequestOptions = {}
+  ): Promise<WorkflowDefinition> {
+    const url = `/v1/workflows/${workflowId}`;
+    try {
+      const data = await this._request("get", url, {
+        retry: options.retry,
+        timeout: options.requestTimeout,
+        signal: options.signal,
+      });
+      return transformKeysToCamelCase(data);
+    } catch (error) {
+      throw await this._toClientException(error, "Error getting workflow");
+    }
+  }
+
+  /**
+   * Make sure a saved browser state exists, running `loginWorkflowId` with
+   * `preserveState` to create it when it is missing (or older than `maxAge`).
+   * Concurrent calls for the same state share a single login run.
+   */
+  async ensureState(
+    stateName: string,
+    options: EnsureStateOptions
+  ): Promise<BrowserState> {
+    const pending = this._ensuringStates.get(stateName);
+    if (pending) {
+      return pending;
+    }
+    const ensuring = this._ensureState(stateName, options).finally(() =>
+      this._ensuringStates.delete(stateName)
+    );
+    this._ensuringStates.set(stateName, ensuring);
+    return ensuring;
+  }
+
+  private async _ensureState(
+    stateName: string,
+    options: EnsureStateOptions
+  ): Promise<BrowserState> {
+    const { loginWorkflowId, maxAge, ...runOptions } = options;
+    try {
+      const state = await this.states.get(stateName, options);
+      const age = Date.now() - new Date(state.updatedAt).getTime();
+      if (maxAge === undefined || age <= maxAge) {
+        return state;
+      }
+    } catch (error) {
+      if (!(error instanceof WitriumNotFoundException)) {
+        throw error;
+      }
+    }
+
+    const result = (await this.runWorkflowAndWait(loginWorkflowId, {
+      ...runOptions,
+      preserveState: stateName,
+    })) as WorkflowRunResult;
+    if (result.status !== WorkflowRunStatus.COMPLETED) {
+      throw new WitriumTerminalStateException(
+        `Login workflow for state '${stateName}' reached terminal status '${WorkflowRunStatus.getStatusName(result.status)}' without completing`,
+        {
+          runId: result.runId,
+          status: result.status,
+          targetStatus: WorkflowRunStatus.COMPLETED,
+        }
       );
     }
+    return this.states.get(stateName, options);
   }
 
+  /**
+   * Submit a talent run. Poll it with `getTalentResults()`, or use
+   * `runTalentAndWait()` to wait for the result.
+   */
   async runTalent(
     talentId: string,
     options: TalentRunOptions = {}
-  ): Promise<TalentRunResult> {
+  ): Promise<TalentRunSubmitted> {
     const url = `/v1/talents/${talentId}/run`;
     try {
       // Auto-inject active session ID if not explicitly provided
       const browserSessionId =
-        options.browserSessionId ?? this._activeSessionId;
+        options.browserSessionId !== undefined
+          ? options.browserSessionId
+          : this.sessionId;
 
       // Build payload with snake_case keys for the server
       const payload: Record<string, any> = {};
       if (options.args !== undefined) payload.args = options.args;
-      if (options.files !== undefined) payload.files = options.files;
       if (options.useStates !== undefined)
         payload.use_states = options.useStates;
       if (options.preserveState !== undefined)
         payload.preserve_state = options.preserveState;
       if (browserSessionId !== undefined && browserSessionId !== null)
         payload.browser_session_id = browserSessionId;
+      if (options.webhookUrl !== undefined)
+        payload.webhook_url = options.webhookUrl;
 
-      const response = await this.client.post(url, payload);
-      return this._transformKeysToCamelCase(response.data);
+      const data = await this._request("post", url, {
+        data: buildRunRequestBody(
+          payload,
+          options.files,
+          this._multipartThreshold
+        ),
+        retry: options.retry,
+        timeout: options.requestTimeout,
+        signal: options.signal,
+        priority: "high",
+        idempotencyKey: options.idempotencyKey,
+      });
+      const submitted: TalentRunSubmitted = transformKeysToCamelCase(data);
+      const now = new Date().toISOString();
+      await this._writeStore("saveRun", { runId: submitted.runId }, (store) =>
+        store.saveRun({
+          kind: "talent",
+          runId: submitted.runId,
+          talentId,
+          args: options.args,
+          status: submitted.status,
+          submittedAt: now,
+          updatedAt: now,
+        })
+      );
+      return submitted;
     } catch (error) {
-      const errorDetail = await this._extractErrorDetail(error);
-      const statusCode = axios.isAxiosError(error)
-        ? error.response?.status
-        : "unknown";
-      throw new WitriumClientException(
-        `Error running talent: ${errorDetail} (Status code: ${statusCode})`
+      throw await this._toClientException(error, "Error running talent");
+    }
+  }
+
+  async getTalentResults(
+    runId: string,
+    options: RequestOptions = {}
+  ): Promise<TalentRunResult> {
+    const url = `/v1/talent-runs/${runId}/results`;
+    try {
+      const data = await this._request("get", url, {
+        retry: options.retry,
+        timeout: options.requestTimeout,
+        signal: options.signal,
+        priority: "low",
+      });
+      const results: TalentRunResult = transformKeysToCamelCase(data);
+      await this._writeStore("saveRun", { runId }, (store) =>
+        this._recordResults(store, runId, results)
+      );
+      return results;
+    } catch (error) {
+      throw await this._toClientException(
+        error,
+        "Error getting talent results",
+        runId
+      );
+    }
+  }
+
+  async cancelTalentRun(
+    runId: string,
+    options: RequestOptions = {}
+  ): Promise<TalentRunResult> {
+    const url = `/v1/talent-runs/${runId}/cancel`;
+    try {
+      // Cancelling twice is harmless, so the POST is safe to retry
+      const data = await this._request("post", url, {
+        retry: options.retry,
+        timeout: options.requestTimeout,
+        signal: options.signal,
+        priority: "high",
+        idempotent: true,
+      });
+      return transformKeysToCamelCase(data);
+    } catch (error) {
+      throw await this._toClientException(
+        error,
+        "Error cancelling talent run",
+        runId
       );
     }
   }
 
+  /**
+   * Submit a talent run and poll it until it reaches a terminal status.
+   */
+  async runTalentAndWait(
+    talentId: string,
+    options: RunTalentAndWaitOptions = {}
+  ): Promise<TalentRunResult> {
+    const submitted = await this.runTalent(talentId, {
+      args: options.args,
+      files: options.files,
+      useStates: options.useStates,
+      preserveState: options.preserveState,
+      browserSessionId: options.browserSessionId,
+      webhookUrl: options.webhookUrl,
+      idempotencyKey: options.idempotencyKey,
+      retry: options.retry,
+      requestTimeout: options.requestTimeout,
+      signal: options.signal,
+    });
+    return this._waitForTalent(submitted.runId, options);
+  }
+
+  /**
+   * Poll a submitted talent run until it reaches a terminal status.
+   */
+  private async _waitForTalent(
+    runId: string,
+    options: RunTalentAndWaitOptions
+  ): Promise<TalentRunResult> {
+    const timeout = options.timeout; // undefined = poll forever
+    const pollingStrategy =
+      options.pollingStrategy ?? fixedPolling(options.pollingInterval ?? 5000);
+    const startTime = this._clock.now();
+    let attempt = 0;
+
+    return this._pollingLoop(
+      runId,
+      options.cancelOnAbort,
+      async () => {
+        while (true) {
+          // Check timeout if specified
+          if (
+            timeout !== undefined &&
+            this._clock.now() - startTime >= timeout
+          ) {
+            throw new WitriumTimeoutException(
+              `Talent execution timed out after ${timeout / 1000} seconds`,
+              { runId }
+            );
+          }
+
+          const results = await this.getTalentResults(runId, {
+            retry: options.retry,
+            requestTimeout: options.requestTimeout,
+            signal: options.signal,
+          });
+          options.onProgress?.(results);
+
+          if (
+            WorkflowRunStatus.TERMINAL_STATUSES.includes(results.status as any)
+          ) {
+            return results;
+          }
+
+          attempt++;
+          const delay = pollingStrategy({
+            attempt,
+            elapsed: this._clock.now() - startTime,
+            lastStatus: results.status,
+          });
+          await sleep(delay, options.signal, runId, this._clock);
+        }
+      },
+      () => this.cancelTalentRun(runId)
+    );
+  }
+
+  async listTalents(options: ListTalentsOptions = {}): Promise<ListTalents> {
+    const url = "/v1/talents";
+    try {
+      const params: Record<string, unknown> = {};
+      if (options.search !== undefined) params.search = options.search;
+      if (options.limit !== undefined) params.limit = options.limit;
+      if (options.offset !== undefined) params.offset = options.offset;
+
+      const data = await this._request("get", url, {
+        params,
+        retry: options.retry,
+        timeout: options.requestTimeout,
+        signal: options.signal,
+      });
+      return transformKeysToCamelCase(data);
+    } catch (error) {
+      throw await this._toClientException(error, "Error listing talents");
+    }
+  }
+
+  /**
+   * Iterate over every talent in the project, fetching pages as needed.
+   */
+  iterateTalents(
+    options: ListTalentsOptions = {}
+  ): AsyncGenerator<TalentDefinition, void, undefined> {
+    return paginate(async (offset, limit) => {
+      const page = await this.listTalents({ ...options, offset, limit });
+      return { items: page.talents, totalCount: page.totalCount };
+    }, options);
+  }
+
+  /**
+   * Fetch a talent with its declared arguments and expected files. Pass the
+   * result to `validateArgs()` to check arguments before running it.
+   */
+  async getTalent(
+    talentId: string,
+    options: RequestOptions = {}
+  ): Promise<TalentDefinition> {
+    const url = `/v1/talents/${talentId}`;
+    try {
+      const data = await this._request("get", url, {
+        retry: options.retry,
+        timeout: options.requestTimeout,
+        signal: options.signal,
+      });
+      return transformKeysToCamelCase(data);
+    } catch (error) {
+      throw await this._toClientException(error, "Error getting talent");
+    }
+  }
+
   async createBrowserSession(
     options: BrowserSessionCreateOptions = {}
   ): Promise<BrowserSession> {
@@ -319,47 +1725,82 @@ export class WitriumClient {
       if (options.preserveState !== undefined)
         payload.preserve_state = options.preserveState;
 
-      const response = await this.client.post(url, payload);
-      return this._transformKeysToCamelCase(response.data);
+      const data = await this._request("post", url, {
+        data: payload,
+        retry: options.retry,
+        timeout: options.requestTimeout,
+        signal: options.signal,
+        priority: "high",
+        idempotencyKey: options.idempotencyKey,
+      });
+      const session: BrowserSession = transformKeysToCamelCase(data);
+      this._emit("sessionCreated", { session });
+      return session;
     } catch (error) {
-      const errorDetail = await this._extractErrorDetail(error);
-      const statusCode = axios.isAxiosError(error)
-        ? error.response?.status
-        : "unknown";
-      throw new WitriumClientException(
-        `Error creating browser session: ${errorDetail} (Status code: ${statusCode})`
+      throw await this._toClientException(
+        error,
+        "Error creating browser session"
       );
     }
   }
 
-  async listBrowserSessions(): Promise<ListBrowserSession> {
+  async listBrowserSessions(
+    options: ListBrowserSessionsOptions = {}
+  ): Promise<ListBrowserSession> {
     const url = "/v1/browser-sessions";
     try {
-      const response = await this.client.get(url);
-      return this._transformKeysToCamelCase(response.data);
+      // Without limit/offset the API returns every session at once
+      const params: Record<string, unknown> = {};
+      if (options.limit !== undefined) params.limit = options.limit;
+      if (options.offset !== undefined) params.offset = options.offset;
+
+      const data = await this._request("get", url, {
+        params,
+        retry: options.retry,
+        timeout: options.requestTimeout,
+        signal: options.signal,
+      });
+      return transformKeysToCamelCase(data);
     } catch (error) {
-      const errorDetail = await this._extractErrorDetail(error);
-      const statusCode = axios.isAxiosError(error)
-        ? error.response?.status
-        : "unknown";
-      throw new WitriumClientException(
-        `Error listing browser sessions: ${errorDetail} (Status code: ${statusCode})`
+      throw await this._toClientException(
+        error,
+        "Error listing browser sessions"
       );
     }
   }
 
-  async getBrowserSession(sessionId: string): Promise<BrowserSession> {
+  /**
+   * Iterate over every browser session, fetching pages as needed.
+   */
+  iterateBrowserSessions(
+    options: ListBrowserSessionsOptions = {}
+  ): AsyncGenerator<BrowserSession, void, undefined> {
+    return paginate(async (offset, limit) => {
+      const page = await this.listBrowserSessions({
+        ...options,
+        offset,
+        limit,
+      });
+      return { items: page.sessions, totalCount: page.totalCount };
+    }, options);
+  }
+
+  async getBrowserSession(
+    sessionId: string,
+    options: RequestOptions = {}
+  ): Promise<BrowserSession> {
     const url = `/v1/browser-sessions/${sessionId}`;
     try {
-      const response = await this.client.get(url);
-      return this._transformKeysToCamelCase(response.data);
+      const data = await this._request("get", url, {
+        retry: options.retry,
+        timeout: options.requestTimeout,
+        signal: options.signal,
+      });
+      return transformKeysToCamelCase(data);
     } catch (error) {
-      const errorDetail = await this._extractErrorDetail(error);
-      const statusCode = axios.isAxiosError(error)
-        ? error.response?.status
-        : "unknown";
-      throw new WitriumClientException(
-        `Error getting browser session: ${errorDetail} (Status code: ${statusCode})`
+      throw await this._toClientException(
+        error,
+        "Error getting browser session"
       );
     }
   }
@@ -375,16 +1816,21 @@ export class WitriumClient {
       if (options.preserveState !== undefined)
         payload.preserve_state = options.preserveState;
 
-      const response = await this.client.post(url, payload);
-
-      return this._transformKeysToCamelCase(response.data);
+      // Closing an already closed session is harmless, so retry is safe
+      const data = await this._request("post", url, {
+        data: payload,
+        retry: options.retry,
+        timeout: options.requestTimeout,
+        signal: options.signal,
+        priority: "high",
+        idempotent: true,
+      });
+      this._emit("sessionClosed", { sessionId });
+      return transformKeysToCamelCase(data);
     } catch (error) {
-      const errorDetail = await this._extractErrorDetail(error);
-      const statusCode = axios.isAxiosError(error)
-        ? error.response?.status
-        : "unknown";
-      throw new WitriumClientException(
-        `Error closing browser session: ${errorDetail} (Status code: ${statusCode})`
+      throw await this._toClientException(
+        error,
+        "Error closing browser session"
       );
     }
   }
@@ -394,15 +1840,20 @@ export class WitriumClient {
     options: BrowserSessionCreateOptions = {}
   ): Promise<T> {
     const session = await this.createBrowserSession(options);
-    const previousSessionId = this._activeSessionId;
-    this._activeSessionId = session.uuid;
 
     try {
-      return await callback(session.uuid);
+      // Recorded so closeLeakedSessions() can close it if the process dies
+      await this._writeStore(
+        "saveSession",
+        { sessionId: session.uuid },
+        (store) =>
+          store.saveSession({
+            sessionId: session.uuid,
+            createdAt: session.createdAt,
+          })
+      );
+      return await this.withSessionId(session.uuid, callback);
     } finally {
-      // Restore previous session ID (for nested calls)
-      this._activeSessionId = previousSessionId;
-
       // Use force=true to ensure cleanup even if session is busy
       // Swallow errors during cleanup to not mask the original error
       try {
@@ -410,9 +1861,55 @@ export class WitriumClient {
           force: true,
           preserveState: options.preserveState,
         });
+        await this._writeStore(
+          "deleteSession",
+          { sessionId: session.uuid },
+          (store) => store.deleteSession(session.uuid)
+        );
       } catch {
         // Ignore cleanup errors
       }
     }
   }
+
+  /**
+   * Close the sessions that `withBrowserSession()` opened but never closed,
+   * because the process exited inside the callback. Call it on startup.
+   * Returns the IDs of the sessions that were still open.
+   */
+  async closeLeakedSessions(options: RequestOptions = {}): Promise<string[]> {
+    if (!this._runStore) return [];
+    const closed: string[] = [];
+    for (const { sessionId } of await this._runStore.listSessions()) {
+      try {
+        await this.closeBrowserSession(sessionId, { ...options, force: true });
+        closed.push(sessionId);
+      } catch (error) {
+        if (!(error instanceof WitriumNotFoundException)) throw error;
+      }
+      await this._runStore.deleteSession(sessionId);
+    }
+    return closed;
+  }
+
+  /**
+   * Run a callback with an existing session as the active session, without
+   * creating or closing it. Runs submitted inside use it automatically.
+   */
+  async withSessionId<T>(
+    sessionId: string,
+    callback: (sessionId: string) => Promise<T>
+  ): Promise<T> {
+    // The previous session ID is back in effect once the callback settles
+    // (for nested calls)
+    return this._sessionScope.run(sessionId, () => callback(sessionId));
+  }
+
+  /**
+   * Return this client typed by a workflow registry, so workflow IDs, their
+   * args and their results are checked at compile time. No runtime effect.
+   */
+  withWorkflowTypes<R extends WorkflowRegistry<R>>(): TypedWorkflowClient<R> {
+    return this as unknown as TypedWorkflowClient<R>;
+  }
 }
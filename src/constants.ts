@@ -1,4 +1,6 @@
-import { WorkflowStatus, AgentStatus } from "./types";
+import { WorkflowStatus, AgentStatus } from "./types.js";
+
+export const SDK_VERSION = "0.6.0";
 
 export const WorkflowRunStatus = {
   PENDING: "P" as const,
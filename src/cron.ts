@@ -0,0 +1,268 @@
+import { WitriumClientException } from "./errors.js";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Long enough for expressions that only match on February 29th
+const SEARCH_YEARS = 9;
+
+const MONTH_NAMES = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[]; // names of the values from `min` on
+}
+
+const FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is Sunday too
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES },
+];
+
+/**
+ * A parsed cron expression. Each array is indexed by field value.
+ */
+export interface CronExpression {
+  minutes: boolean[];
+  hours: boolean[];
+  days: boolean[];
+  months: boolean[];
+  weekdays: boolean[];
+  // Day of month and day of week both restricted: either one matches
+  eitherDay: boolean;
+}
+
+function invalid(expression: string, reason: string): WitriumClientException {
+  return new WitriumClientException(
+    `Invalid cron expression '${expression}': ${reason}`
+  );
+}
+
+function parseValue(text: string, field: CronField, expression: string) {
+  const index = field.names?.indexOf(text.toLowerCase()) ?? -1;
+  if (index !== -1) return field.min + index;
+  if (!/^\d+$/.test(text)) {
+    throw invalid(expression, `'${text}' is not a valid ${field.name}`);
+  }
+  const value = Number(text);
+  if (value < field.min || value > field.max) {
+    throw invalid(
+      expression,
+      `${field.name} ${value} is outside ${field.min}-${field.max}`
+    );
+  }
+  return value;
+}
+
+function parseField(
+  text: string,
+  field: CronField,
+  expression: string
+): boolean[] {
+  const values = new Array<boolean>(field.max + 1).fill(false);
+  for (const part of text.split(",")) {
+    const [range, stepText, extra] = part.split("/");
+    if (extra !== undefined || range === "") {
+      throw invalid(expression, `'${part}' is not a valid ${field.name}`);
+    }
+    let step = 1;
+    if (stepText !== undefined) {
+      step = /^\d+$/.test(stepText) ? Number(stepText) : 0;
+      if (step === 0) {
+        throw invalid(expression, `'${stepText}' is not a valid step`);
+      }
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, field, expression);
+      end = parseValue(to, field, expression);
+      if (start > end) {
+        throw invalid(expression, `range '${range}' is backwards`);
+      }
+    } else {
+      start = parseValue(range, field, expression);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : field.max;
+    }
+    for (let value = start; value <= end; value += step) {
+      values[value] = true;
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute, hour, day of month, month and
+ * day of week) or one of the @hourly, @daily, @weekly, @monthly and @yearly
+ * shorthands. Fields accept `*`, lists, ranges, steps and English names.
+ */
+export function parseCron(expression: string): CronExpression {
+  const source = MACROS[expression.trim().toLowerCase()] ?? expression;
+  const fields = source.trim().split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw invalid(
+      expression,
+      `expected ${FIELDS.length} fields, got ${fields.length}`
+    );
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((text, index) =>
+    parseField(text, FIELDS[index], expression)
+  );
+  if (weekdays[7]) weekdays[0] = true;
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    eitherDay: !fields[2].startsWith("*") && !fields[4].startsWith("*"),
+  };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Check that `timeZone` is an IANA time zone this runtime knows.
+ */
+export function assertTimeZone(timeZone: string): void {
+  try {
+    formatter(timeZone);
+  } catch {
+    throw new WitriumClientException(`Unknown time zone '${timeZone}'`);
+  }
+}
+
+function formatter(timeZone: string | undefined): Intl.DateTimeFormat {
+  const key = timeZone ?? "";
+  let format = formatters.get(key);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(key, format);
+  }
+  return format;
+}
+
+/**
+ * The wall-clock time in `timeZone` at `time`, as a timestamp whose UTC
+ * fields are that wall-clock time. Milliseconds are dropped.
+ */
+function wallClock(time: number, timeZone: string | undefined): number {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of formatter(timeZone).formatToParts(time)) {
+    parts[type] = Number(value);
+  }
+  return Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+}
+
+function offsetAt(time: number, timeZone: string | undefined): number {
+  return wallClock(time, timeZone) - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time happens in `timeZone`. A time repeated when
+ * clocks go back resolves to its first occurrence; a time skipped when they
+ * go forward moves forward by the length of the gap.
+ */
+function wallToInstant(wall: number, timeZone: string | undefined): number {
+  const guess = wall - offsetAt(wall, timeZone);
+  const before = wall - offsetAt(guess - 6 * HOUR, timeZone);
+  const after = wall - offsetAt(guess + 6 * HOUR, timeZone);
+  const valid = [before, after].filter(
+    (instant) => wallClock(instant, timeZone) === wall
+  );
+  return valid.length > 0 ? Math.min(...valid) : before;
+}
+
+function dayMatches(cron: CronExpression, date: Date): boolean {
+  const day = cron.days[date.getUTCDate()];
+  const weekday = cron.weekdays[date.getUTCDay()];
+  return cron.eitherDay ? day || weekday : day && weekday;
+}
+
+/**
+ * The first time after `after` (milliseconds) that matches `cron` in
+ * `timeZone`, or null when it never matches.
+ */
+export function nextCronTime(
+  cron: CronExpression,
+  after: number,
+  timeZone?: string
+): number | null {
+  // Walk wall-clock time field by field, then map matches back to instants
+  let wall = Math.floor(wallClock(after, timeZone) / MINUTE) * MINUTE + MINUTE;
+  const limit = wall + SEARCH_YEARS * 366 * DAY;
+  while (wall <= limit) {
+    const date = new Date(wall);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+    const hour = date.getUTCHours();
+    if (!cron.months[month + 1]) {
+      wall = Date.UTC(year, month + 1, 1);
+    } else if (!dayMatches(cron, date)) {
+      wall = Date.UTC(year, month, day + 1);
+    } else if (!cron.hours[hour]) {
+      wall = Date.UTC(year, month, day, hour + 1);
+    } else if (!cron.minutes[date.getUTCMinutes()]) {
+      wall += MINUTE;
+    } else {
+      const instant = wallToInstant(wall, timeZone);
+      // Times repeated when clocks go back only run on the first pass
+      if (instant > after) return instant;
+      wall += MINUTE;
+    }
+  }
+  return null;
+}
@@ -1,6 +1,210 @@
+import { WorkflowStatus } from "./types.js";
+
+export interface WitriumClientExceptionOptions {
+  statusCode?: number;
+  detail?: unknown;
+  method?: string;
+  url?: string;
+  runId?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by the client.
+ */
 export class WitriumClientException extends Error {
-  constructor(message: string) {
+  readonly statusCode?: number;
+  readonly detail?: unknown;
+  readonly method?: string;
+  readonly url?: string;
+  readonly runId?: string;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: WitriumClientExceptionOptions = {}) {
     super(message);
     this.name = "WitriumClientException";
+    this.statusCode = options.statusCode;
+    this.detail = options.detail;
+    this.method = options.method;
+    this.url = options.url;
+    this.runId = options.runId;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The API rejected the API token (401 / 403).
+ */
+export class WitriumAuthenticationException extends WitriumClientException {
+  constructor(message: string, options: WitriumClientExceptionOptions = {}) {
+    super(message, options);
+    this.name = "WitriumAuthenticationException";
+  }
+}
+
+/**
+ * The requested workflow, talent, run or session does not exist (404).
+ */
+export class WitriumNotFoundException extends WitriumClientException {
+  constructor(message: string, options: WitriumClientExceptionOptions = {}) {
+    super(message, options);
+    this.name = "WitriumNotFoundException";
+  }
+}
+
+/**
+ * The request payload was rejected by the API (400 / 422).
+ */
+export class WitriumValidationException extends WitriumClientException {
+  constructor(message: string, options: WitriumClientExceptionOptions = {}) {
+    super(message, options);
+    this.name = "WitriumValidationException";
+  }
+}
+
+/**
+ * The API rate limit was exceeded (429).
+ */
+export class WitriumRateLimitException extends WitriumClientException {
+  /** Milliseconds to wait before retrying, parsed from `Retry-After`. */
+  readonly retryAfter?: number;
+
+  constructor(
+    message: string,
+    options: WitriumClientExceptionOptions & { retryAfter?: number } = {}
+  ) {
+    super(message, options);
+    this.name = "WitriumRateLimitException";
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * The API failed to process the request (5xx).
+ */
+export class WitriumServerException extends WitriumClientException {
+  constructor(message: string, options: WitriumClientExceptionOptions = {}) {
+    super(message, options);
+    this.name = "WitriumServerException";
+  }
+}
+
+/**
+ * The request never produced a response (connection refused, reset, DNS...).
+ */
+export class WitriumNetworkException extends WitriumClientException {
+  constructor(message: string, options: WitriumClientExceptionOptions = {}) {
+    super(message, options);
+    this.name = "WitriumNetworkException";
+  }
+}
+
+/**
+ * An HTTP request or a polling wait exceeded its timeout.
+ */
+export class WitriumTimeoutException extends WitriumClientException {
+  constructor(message: string, options: WitriumClientExceptionOptions = {}) {
+    super(message, options);
+    this.name = "WitriumTimeoutException";
+  }
+}
+
+/**
+ * A run reached a terminal status other than the one being waited for.
+ */
+export class WitriumTerminalStateException extends WitriumClientException {
+  readonly status: WorkflowStatus;
+  readonly targetStatus: WorkflowStatus;
+
+  constructor(
+    message: string,
+    options: WitriumClientExceptionOptions & {
+      status: WorkflowStatus;
+      targetStatus: WorkflowStatus;
+    }
+  ) {
+    super(message, options);
+    this.name = "WitriumTerminalStateException";
+    this.status = options.status;
+    this.targetStatus = options.targetStatus;
+  }
+}
+
+/**
+ * A workflow result did not match the schema or validator supplied for it.
+ */
+export class WitriumResultValidationException extends WitriumClientException {
+  /** Location of the offending value, e.g. `result.items[2].price`. */
+  readonly path: string;
+
+  constructor(
+    message: string,
+    options: WitriumClientExceptionOptions & { path: string }
+  ) {
+    super(message, options);
+    this.name = "WitriumResultValidationException";
+    this.path = options.path;
+  }
+}
+
+/**
+ * A file passed to a FileUpload helper exceeds the maximum upload size.
+ */
+export class WitriumFileTooLargeException extends WitriumClientException {
+  readonly filename: string;
+  readonly size: number;
+  readonly maxSize: number;
+
+  constructor(
+    message: string,
+    options: WitriumClientExceptionOptions & {
+      filename: string;
+      size: number;
+      maxSize: number;
+    }
+  ) {
+    super(message, options);
+    this.name = "WitriumFileTooLargeException";
+    this.filename = options.filename;
+    this.size = options.size;
+    this.maxSize = options.maxSize;
+  }
+}
+
+/**
+ * The operation was cancelled through its AbortSignal.
+ */
+export class WitriumAbortException extends WitriumClientException {
+  constructor(message: string, options: WitriumClientExceptionOptions = {}) {
+    super(message, options);
+    this.name = "WitriumAbortException";
+  }
+}
+
+/**
+ * A webhook request failed signature or timestamp verification.
+ */
+export class WitriumWebhookVerificationException extends WitriumClientException {
+  constructor(message: string, options: WitriumClientExceptionOptions = {}) {
+    super(message, options);
+    this.name = "WitriumWebhookVerificationException";
+  }
+}
+
+/**
+ * Workflow or talent arguments did not match the declared parameters. Raised
+ * locally, before the run is submitted.
+ */
+export class WitriumArgsValidationException extends WitriumValidationException {
+  /** One human-readable entry per problem found. */
+  readonly issues: string[];
+
+  constructor(
+    message: string,
+    options: WitriumClientExceptionOptions & { issues: string[] }
+  ) {
+    super(message, options);
+    this.name = "WitriumArgsValidationException";
+    this.issues = options.issues;
   }
 }
@@ -0,0 +1,190 @@
+import type { Readable } from "stream";
+import {
+  BinaryFileUpload,
+  FileInput,
+  FileUploadHelperOptions,
+  FileUpload as FileUploadPayload,
+} from "./types.js";
+import {
+  WitriumClientException,
+  WitriumFileTooLargeException,
+} from "./errors.js";
+import { concatBytes, loadBuiltinAsync, toBase64 } from "./utils.js";
+
+export const DEFAULT_MAX_FILE_SIZE = 50 * 1024 * 1024; // 50 MB
+export const DEFAULT_MULTIPART_THRESHOLD = 10 * 1024 * 1024; // 10 MB
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".json": "application/json",
+  ".csv": "text/csv",
+  ".txt": "text/plain",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".xml": "application/xml",
+  ".zip": "application/zip",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".mp4": "video/mp4",
+  ".doc": "application/msword",
+  ".docx":
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+function inferContentType(filename: string): string {
+  const dot = filename.lastIndexOf(".");
+  const extension = dot > 0 ? filename.slice(dot).toLowerCase() : "";
+  return CONTENT_TYPES[extension] ?? "application/octet-stream";
+}
+
+function checkSize(filename: string, size: number, maxSize: number): void {
+  if (size > maxSize) {
+    throw new WitriumFileTooLargeException(
+      `File '${filename}' is ${size} bytes, which exceeds the maximum of ${maxSize} bytes`,
+      { filename, size, maxSize }
+    );
+  }
+}
+
+function isBinaryUpload(file: FileInput): file is BinaryFileUpload {
+  return "content" in file;
+}
+
+/**
+ * Build a file upload from an in-memory buffer.
+ */
+function fromBuffer(
+  content: Uint8Array,
+  filename: string,
+  options: FileUploadHelperOptions = {}
+): BinaryFileUpload {
+  checkSize(
+    filename,
+    content.byteLength,
+    options.maxSize ?? DEFAULT_MAX_FILE_SIZE
+  );
+  return {
+    filename,
+    contentType: options.contentType ?? inferContentType(filename),
+    content,
+  };
+}
+
+/**
+ * Build a file upload from a file on disk. The size is checked before the
+ * file is read.
+ */
+async function fromPath(
+  filePath: string,
+  options: FileUploadHelperOptions & { filename?: string } = {}
+): Promise<BinaryFileUpload> {
+  // Loaded lazily so the module also works where there is no file system
+  const fs = (await loadBuiltinAsync<typeof import("fs")>("fs"))?.promises;
+  if (!fs) {
+    throw new WitriumClientException(
+      "FileUpload.fromPath() needs file system access; use FileUpload.fromBuffer() in this runtime"
+    );
+  }
+  const filename = options.filename ?? filePath.split(/[\\/]/).pop()!;
+  const { size } = await fs.stat(filePath);
+  checkSize(filename, size, options.maxSize ?? DEFAULT_MAX_FILE_SIZE);
+  return fromBuffer(await fs.readFile(filePath), filename, options);
+}
+
+/**
+ * Build a file upload from a readable stream, failing as soon as the stream
+ * grows past the maximum size. The whole stream is read into memory (up to
+ * `maxSize`) before anything is sent; the upload itself is not streamed.
+ */
+async function fromStream(
+  stream: Readable | AsyncIterable<Uint8Array>,
+  filename: string,
+  options: FileUploadHelperOptions = {}
+): Promise<BinaryFileUpload> {
+  const maxSize = options.maxSize ?? DEFAULT_MAX_FILE_SIZE;
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of stream) {
+    size += chunk.byteLength;
+    if (size > maxSize) {
+      (stream as Readable).destroy?.();
+      checkSize(filename, size, maxSize);
+    }
+    chunks.push(chunk);
+  }
+  return fromBuffer(concatBytes(chunks), filename, options);
+}
+
+export type FileUpload = FileUploadPayload;
+
+/**
+ * Helpers that build `files` entries from local data, encoding and typing
+ * them for you.
+ */
+export const FileUpload = { fromBuffer, fromPath, fromStream };
+
+/**
+ * Build the request body for a run submission. Binary files are sent as
+ * multipart/form-data once their total size reaches `multipartThreshold`
+ * (avoiding the base64 overhead); otherwise everything is sent as JSON with
+ * base64-encoded file data. Throws when multipart is needed but the runtime
+ * has no FormData.
+ */
+export function buildRunRequestBody(
+  payload: Record<string, any>,
+  files: FileInput[] | undefined,
+  multipartThreshold: number
+): Record<string, any> | FormData {
+  if (files === undefined) {
+    return payload;
+  }
+
+  const binaryFiles = files.filter(isBinaryUpload);
+  const binarySize = binaryFiles.reduce(
+    (total, file) => total + file.content.byteLength,
+    0
+  );
+  const useMultipart =
+    binaryFiles.length > 0 && binarySize >= multipartThreshold;
+  if (useMultipart && typeof FormData === "undefined") {
+    throw new WitriumClientException(
+      `Uploading ${binarySize} bytes of files needs FormData, which this runtime does not provide (Node 18 or later does); raise multipartThreshold to send them as base64 JSON instead`
+    );
+  }
+
+  const toJsonFile = (file: FileInput) => {
+    const json: Record<string, string> = {
+      filename: file.filename,
+      data: isBinaryUpload(file) ? toBase64(file.content) : file.data,
+    };
+    if (file.contentType !== undefined) json.content_type = file.contentType;
+    return json;
+  };
+
+  if (!useMultipart) {
+    return { ...payload, files: files.map(toJsonFile) };
+  }
+
+  const form = new FormData();
+  form.append(
+    "payload",
+    JSON.stringify({
+      ...payload,
+      files: files.filter((file) => !isBinaryUpload(file)).map(toJsonFile),
+    })
+  );
+  for (const file of binaryFiles) {
+    form.append(
+      "files",
+      new Blob([file.content as BlobPart], { type: file.contentType }),
+      file.filename
+    );
+  }
+  return form;
+}
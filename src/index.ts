@@ -1,4 +1,32 @@
-export { WitriumClient } from "./client";
-export * from "./types";
-export { WitriumClientException } from "./errors";
-export { WorkflowRunStatus, AgentExecutionStatus } from "./constants";
+export { WitriumClient } from "./client.js";
+export * from "./types.js";
+export {
+  WitriumClientException,
+  WitriumClientExceptionOptions,
+  WitriumAuthenticationException,
+  WitriumNotFoundException,
+  WitriumValidationException,
+  WitriumRateLimitException,
+  WitriumServerException,
+  WitriumNetworkException,
+  WitriumTimeoutException,
+  WitriumTerminalStateException,
+  WitriumAbortException,
+  WitriumResultValidationException,
+  WitriumFileTooLargeException,
+  WitriumWebhookVerificationException,
+  WitriumArgsValidationException,
+} from "./errors.js";
+export { WorkflowRunStatus, AgentExecutionStatus } from "./constants.js";
+export { RunPoller, fixedPolling, exponentialPolling } from "./polling.js";
+export { RateLimiter } from "./ratelimit.js";
+export { BrowserSessionPool } from "./pool.js";
+export { FileUpload } from "./files.js";
+export { validateArgs } from "./catalog.js";
+export { StatesClient } from "./states.js";
+export { ArtifactsClient } from "./artifacts.js";
+export { redactHeaders } from "./utils.js";
+export { fetchTransport, TransportError } from "./transport.js";
+export { MemoryRunStore, FileRunStore } from "./runstore.js";
+export { Pipeline } from "./pipeline.js";
+export { WitriumScheduler } from "./scheduler.js";
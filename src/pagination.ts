@@ -0,0 +1,27 @@
+import { PaginationOptions } from "./types.js";
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Iterate over every item of an offset-paginated listing, fetching pages
+ * lazily as the consumer advances.
+ */
+export async function* paginate<T>(
+  fetchPage: (
+    offset: number,
+    limit: number
+  ) => Promise<{ items: T[]; totalCount: number }>,
+  options: PaginationOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+  let offset = options.offset ?? 0;
+
+  while (true) {
+    const { items, totalCount } = await fetchPage(offset, limit);
+    yield* items;
+    offset += items.length;
+    if (items.length === 0 || offset >= totalCount) {
+      return;
+    }
+  }
+}
@@ -0,0 +1,470 @@
+import type { WitriumClient } from "./client.js";
+import {
+  BrowserSessionCreateOptions,
+  PipelineCompensation,
+  PipelineContext,
+  PipelineDefinition,
+  PipelineRunOptions,
+  PipelineStatus,
+  PipelineStep,
+  PipelineStepTrace,
+  PipelineTalentStep,
+  PipelineTrace,
+  PipelineWorkflowStep,
+  TalentRunResult,
+  WorkflowRunResult,
+} from "./types.js";
+import { WorkflowRunStatus } from "./constants.js";
+import {
+  WitriumAbortException,
+  WitriumClientException,
+  WitriumTimeoutException,
+} from "./errors.js";
+import { sleep } from "./utils.js";
+
+type RunStep = PipelineWorkflowStep | PipelineTalentStep;
+
+interface PipelineState {
+  context: PipelineContext;
+  signal: AbortSignal;
+  stop: () => void;
+  // Completed steps with a compensation, in completion order
+  completed: {
+    step: RunStep;
+    compensate: PipelineCompensation;
+    sessionId: string | null;
+  }[];
+  onStepComplete?: (step: PipelineStepTrace) => void;
+}
+
+function isRunStep(step: PipelineStep): step is RunStep {
+  return "workflow" in step || "talent" in step;
+}
+
+function stepKind(step: PipelineStep): PipelineStepTrace["kind"] {
+  return "workflow" in step
+    ? "workflow"
+    : "talent" in step
+      ? "talent"
+      : "sequence" in step
+        ? "sequence"
+        : "parallel";
+}
+
+function stepTarget(step: RunStep): string {
+  return "workflow" in step ? step.workflow : step.talent;
+}
+
+/**
+ * Check that every step, nested ones included, has a unique name and
+ * exactly one kind.
+ */
+function validateSteps(steps: PipelineStep[], names: Set<string>): void {
+  for (const step of steps) {
+    if (!step.name) {
+      throw new WitriumClientException("Every pipeline step needs a name");
+    }
+    if (names.has(step.name)) {
+      throw new WitriumClientException(
+        `Duplicate pipeline step name '${step.name}'`
+      );
+    }
+    names.add(step.name);
+    const kinds = ["workflow", "talent", "sequence", "parallel"].filter(
+      (kind) => kind in step
+    );
+    if (kinds.length !== 1) {
+      throw new WitriumClientException(
+        `Pipeline step '${step.name}' must have exactly one of workflow, talent, sequence or parallel`
+      );
+    }
+    if ("sequence" in step) validateSteps(step.sequence, names);
+    if ("parallel" in step) validateSteps(step.parallel, names);
+  }
+}
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function finishTrace(
+  trace: Omit<PipelineStepTrace, "completedAt" | "duration">,
+  startTime: number
+): PipelineStepTrace {
+  return {
+    ...trace,
+    completedAt: new Date().toISOString(),
+    duration: Date.now() - startTime,
+  };
+}
+
+/**
+ * A declarative chain of workflow and talent runs. Steps run in order, in
+ * one browser session unless `session` is false, and can map earlier
+ * outputs into their args, run conditionally, retry, and branch out in
+ * parallel. When a step fails, the compensations of the steps that already
+ * completed run in reverse order.
+ *
+ * Any step can set `session` too: an object opens a session of its own for
+ * the step and its children, and false runs them without one. Runs in a
+ * browser session execute one at a time, so give `parallel` branches their
+ * own sessions when they should overlap.
+ */
+export class Pipeline {
+  private _client: WitriumClient;
+  private _steps: PipelineStep[];
+  private _session: BrowserSessionCreateOptions | false;
+
+  constructor(client: WitriumClient, definition: PipelineDefinition) {
+    validateSteps(definition.steps, new Set());
+    this._client = client;
+    this._steps = definition.steps;
+    this._session = definition.session ?? {};
+  }
+
+  /**
+   * Run every step and return the trace. A failed or aborted pipeline is
+   * reported through the trace's `status` rather than thrown; errors opening
+   * the browser session are thrown.
+   */
+  async run(
+    input: Record<string, unknown> = {},
+    options: PipelineRunOptions = {}
+  ): Promise<PipelineTrace> {
+    const startedAt = new Date().toISOString();
+    const startTime = Date.now();
+
+    // Internal controller so a failed step stops the steps running beside it
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(options.signal?.reason);
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    const execute = async (sessionId: string | null) => {
+      const state: PipelineState = {
+        context: { input, outputs: {}, results: {}, sessionId },
+        signal: controller.signal,
+        stop: () => controller.abort(),
+        completed: [],
+        onStepComplete: options.onStepComplete,
+      };
+      const steps: PipelineStepTrace[] = [];
+      const status = await this._runSequence(
+        this._steps,
+        state,
+        steps,
+        sessionId
+      );
+
+      const compensations: PipelineStepTrace[] = [];
+      if (status !== "completed") {
+        // Compensations run even after an abort, so cleanup is never skipped
+        for (const {
+          step,
+          compensate,
+          sessionId,
+        } of state.completed.reverse()) {
+          compensations.push(
+            await this._runStep(
+              { ...compensate, name: `${step.name}:compensate` } as RunStep,
+              state,
+              undefined,
+              sessionId
+            )
+          );
+        }
+      }
+
+      const failed = findFailure(steps);
+      const trace: PipelineTrace = {
+        status,
+        sessionId,
+        steps,
+        compensations,
+        outputs: state.context.outputs,
+        startedAt,
+        completedAt: new Date().toISOString(),
+        duration: Date.now() - startTime,
+      };
+      if (failed?.errorMessage !== undefined) {
+        trace.errorMessage = `Step '${failed.name}' failed: ${failed.errorMessage}`;
+      }
+      return trace;
+    };
+
+    try {
+      if (this._session === false) {
+        return await execute(null);
+      }
+      return await this._client.withBrowserSession(
+        (sessionId) => execute(sessionId),
+        { ...this._session, signal: options.signal }
+      );
+    } finally {
+      options.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  private async _runSequence(
+    steps: PipelineStep[],
+    state: PipelineState,
+    traces: PipelineStepTrace[],
+    sessionId: string | null
+  ): Promise<PipelineTrace["status"]> {
+    for (const step of steps) {
+      const trace = await this._runAny(step, state, sessionId);
+      traces.push(trace);
+      if (trace.status === "failed" || trace.status === "cancelled") {
+        return trace.status;
+      }
+    }
+    return "completed";
+  }
+
+  private async _runAny(
+    step: PipelineStep,
+    state: PipelineState,
+    sessionId: string | null
+  ): Promise<PipelineStepTrace> {
+    const startedAt = new Date().toISOString();
+    const startTime = Date.now();
+    const base = {
+      name: step.name,
+      kind: stepKind(step),
+      ...(isRunStep(step) && { target: stepTarget(step) }),
+      runIds: [],
+      startedAt,
+    };
+    // Failures before the step ran
+    const fail = (status: PipelineStatus, errorMessage: string) => {
+      const trace = finishTrace(
+        { ...base, status, attempts: 0, errorMessage },
+        startTime
+      );
+      if (isRunStep(step)) state.onStepComplete?.(trace);
+      return trace;
+    };
+
+    let skip: boolean;
+    try {
+      skip =
+        step.when !== undefined && !step.when({ ...state.context, sessionId });
+    } catch (error) {
+      return fail("failed", `when() threw: ${errorText(error)}`);
+    }
+    if (skip) {
+      return finishTrace(
+        { ...base, status: "skipped", attempts: 0 },
+        startTime
+      );
+    }
+    if (step.session === false) {
+      return this._runBody(step, state, null);
+    }
+    if (!step.session) {
+      return this._runBody(step, state, sessionId);
+    }
+
+    try {
+      return await this._client.withBrowserSession(
+        async (ownSessionId) => {
+          try {
+            return await this._runBody(step, state, ownSessionId);
+          } finally {
+            // The step's session is closed by the time compensations run
+            for (const entry of state.completed) {
+              if (entry.sessionId === ownSessionId) entry.sessionId = sessionId;
+            }
+          }
+        },
+        { ...step.session, signal: state.signal }
+      );
+    } catch (error) {
+      return fail(
+        error instanceof WitriumAbortException ? "cancelled" : "failed",
+        `could not open the step's browser session: ${errorText(error)}`
+      );
+    }
+  }
+
+  private async _runBody(
+    step: PipelineStep,
+    state: PipelineState,
+    sessionId: string | null
+  ): Promise<PipelineStepTrace> {
+    if (isRunStep(step)) {
+      return this._runStep(step, state, state.signal, sessionId);
+    }
+
+    const startedAt = new Date().toISOString();
+    const startTime = Date.now();
+    const children: PipelineStepTrace[] = [];
+    let status: PipelineTrace["status"];
+    if ("sequence" in step) {
+      status = await this._runSequence(
+        step.sequence,
+        state,
+        children,
+        sessionId
+      );
+    } else {
+      const traces = await Promise.all(
+        step.parallel.map(async (child) => {
+          const trace = await this._runAny(child, state, sessionId);
+          if (trace.status === "failed") state.stop();
+          return trace;
+        })
+      );
+      children.push(...traces);
+      status = traces.some((trace) => trace.status === "failed")
+        ? "failed"
+        : traces.some((trace) => trace.status === "cancelled")
+          ? "cancelled"
+          : "completed";
+    }
+    return finishTrace(
+      {
+        name: step.name,
+        kind: stepKind(step),
+        status,
+        runIds: [],
+        attempts: 1,
+        startedAt,
+        steps: children,
+      },
+      startTime
+    );
+  }
+
+  /**
+   * Run a workflow or talent step, retrying failed runs.
+   */
+  private async _runStep(
+    step: RunStep,
+    state: PipelineState,
+    signal: AbortSignal | undefined,
+    sessionId: string | null
+  ): Promise<PipelineStepTrace> {
+    const startedAt = new Date().toISOString();
+    const startTime = Date.now();
+    const retries = step.retries ?? 0;
+    const base = {
+      name: step.name,
+      kind: stepKind(step),
+      target: stepTarget(step),
+      runIds: [] as string[],
+      startedAt,
+    };
+    const finish = (
+      trace: Pick<PipelineStepTrace, "status" | "attempts"> &
+        Partial<PipelineStepTrace>
+    ) => {
+      const finished = finishTrace({ ...base, ...trace }, startTime);
+      state.onStepComplete?.(finished);
+      return finished;
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      let errorMessage: string;
+      try {
+        if (signal?.aborted) {
+          throw new WitriumAbortException("Pipeline was aborted");
+        }
+        const args =
+          typeof step.args === "function"
+            ? step.args({ ...state.context, sessionId })
+            : step.args;
+        const results: WorkflowRunResult | TalentRunResult =
+          "workflow" in step
+            ? ((await this._client.runWorkflowAndWait(step.workflow, {
+                ...step.options,
+                args,
+                // null keeps the run out of any enclosing session scope
+                browserSessionId: sessionId,
+                signal,
+                cancelOnAbort: true,
+              })) as WorkflowRunResult)
+            : await this._client.runTalentAndWait(step.talent, {
+                ...step.options,
+                args,
+                browserSessionId: sessionId,
+                signal,
+                cancelOnAbort: true,
+              });
+        base.runIds.push(results.runId);
+
+        if (results.status === WorkflowRunStatus.COMPLETED) {
+          state.context.outputs[step.name] = results.result;
+          state.context.results[step.name] = results;
+          if (step.compensate) {
+            state.completed.push({
+              step,
+              compensate: step.compensate,
+              sessionId,
+            });
+          }
+          return finish({
+            status: "completed",
+            attempts: attempt,
+            result: results.result,
+          });
+        }
+        errorMessage =
+          results.errorMessage ??
+          `run ended with status '${WorkflowRunStatus.getStatusName(results.status)}'`;
+      } catch (error) {
+        if (error instanceof WitriumAbortException) {
+          return finish({
+            status: "cancelled",
+            attempts: attempt,
+            errorMessage: error.message,
+          });
+        }
+        if (error instanceof WitriumClientException && error.runId) {
+          base.runIds.push(error.runId);
+        }
+        errorMessage = errorText(error);
+        // A timed-out run keeps going and would hold the session the next
+        // attempt runs in
+        if (error instanceof WitriumTimeoutException && error.runId) {
+          const cancelOptions = {
+            retry: step.options?.retry,
+            requestTimeout: step.options?.requestTimeout,
+          };
+          try {
+            await ("workflow" in step
+              ? this._client.cancelRun(error.runId, cancelOptions)
+              : this._client.cancelTalentRun(error.runId, cancelOptions));
+          } catch (cancelError) {
+            errorMessage += `; cancelling the run failed: ${errorText(cancelError)}`;
+          }
+        }
+      }
+
+      if (attempt > retries) {
+        return finish({ status: "failed", attempts: attempt, errorMessage });
+      }
+      try {
+        await sleep(step.retryDelay ?? 0, signal);
+      } catch (error) {
+        return finish({
+          status: "cancelled",
+          attempts: attempt,
+          errorMessage: (error as Error).message,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * The first failed step run, searching inside sequences and parallels.
+ */
+function findFailure(
+  traces: PipelineStepTrace[]
+): PipelineStepTrace | undefined {
+  for (const trace of traces) {
+    if (trace.status !== "failed") continue;
+    return trace.steps ? (findFailure(trace.steps) ?? trace) : trace;
+  }
+  return undefined;
+}
@@ -0,0 +1,177 @@
+import {
+  Clock,
+  PollingStrategy,
+  RequestOptions,
+  RunPollerOptions,
+  WorkflowRunResult,
+} from "./types.js";
+import { abortException, systemClock } from "./utils.js";
+
+/**
+ * Poll at the same interval for the whole wait.
+ */
+export function fixedPolling(interval: number): PollingStrategy {
+  return () => interval;
+}
+
+/**
+ * Start polling quickly and back off geometrically up to `max`, so short runs
+ * finish fast and long runs stay quiet.
+ */
+export function exponentialPolling(
+  options: { initial?: number; factor?: number; max?: number } = {}
+): PollingStrategy {
+  const initial = options.initial ?? 1000;
+  const factor = options.factor ?? 2;
+  const max = options.max ?? 30000;
+  return ({ attempt }) => Math.min(max, initial * factor ** (attempt - 1));
+}
+
+interface PendingPoll {
+  runId: string;
+  options: Omit<RequestOptions, "signal">;
+  // Aborts the request once every waiter has given up on it
+  controller: AbortController;
+  waiters: {
+    resolve: (results: WorkflowRunResult) => void;
+    reject: (error: unknown) => void;
+  }[];
+}
+
+/**
+ * Schedules status checks for many runs through one queue. Concurrent waits on
+ * the same run share a single request, and the total request rate is bounded
+ * by `maxConcurrency` and `minInterval` however many runs are being watched.
+ *
+ * Waits only share a request when they pass the same `retry` and
+ * `requestTimeout`, which the request then uses. The request is aborted once
+ * every wait sharing it was aborted.
+ */
+export class RunPoller {
+  private _fetchResults: (
+    runId: string,
+    options: RequestOptions
+  ) => Promise<WorkflowRunResult>;
+  private _maxConcurrency: number;
+  private _minInterval: number;
+  private _queue = new Map<string, PendingPoll>();
+  private _inFlight = 0;
+  private _nextSlot = 0;
+  private _clock: Clock;
+  private _timer: unknown = null;
+
+  constructor(
+    fetchResults: (
+      runId: string,
+      options: RequestOptions
+    ) => Promise<WorkflowRunResult>,
+    options: RunPollerOptions = {},
+    clock: Clock = systemClock
+  ) {
+    this._fetchResults = fetchResults;
+    this._clock = clock;
+    this._maxConcurrency = options.maxConcurrency ?? 4;
+    this._minInterval = options.minInterval ?? 100;
+  }
+
+  /**
+   * Number of runs waiting for a status check.
+   */
+  get pending(): number {
+    return this._queue.size;
+  }
+
+  /**
+   * Resolve with the next fresh snapshot of `runId`.
+   */
+  poll(
+    runId: string,
+    options: RequestOptions = {}
+  ): Promise<WorkflowRunResult> {
+    const { signal, retry, requestTimeout } = options;
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortException(signal, runId));
+        return;
+      }
+
+      const key = JSON.stringify([runId, retry, requestTimeout]);
+      let entry = this._queue.get(key);
+      if (!entry) {
+        entry = {
+          runId,
+          options: { retry, requestTimeout },
+          controller: new AbortController(),
+          waiters: [],
+        };
+        this._queue.set(key, entry);
+      }
+      const pendingEntry = entry;
+
+      const onAbort = () => {
+        const index = pendingEntry.waiters.indexOf(waiter);
+        if (index !== -1) pendingEntry.waiters.splice(index, 1);
+        if (pendingEntry.waiters.length === 0) {
+          if (this._queue.get(key) === pendingEntry) {
+            this._queue.delete(key);
+          } else {
+            // Already in flight, and nobody is left to read the response
+            pendingEntry.controller.abort(signal!.reason);
+          }
+        }
+        reject(abortException(signal!, runId));
+      };
+      const waiter = {
+        resolve: (results: WorkflowRunResult) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(results);
+        },
+        reject: (error: unknown) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      };
+      pendingEntry.waiters.push(waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this._pump();
+    });
+  }
+
+  private _pump(): void {
+    while (this._queue.size > 0 && this._inFlight < this._maxConcurrency) {
+      const now = this._clock.now();
+      if (now < this._nextSlot) {
+        if (this._timer === null) {
+          this._timer = this._clock.setTimeout(() => {
+            this._timer = null;
+            this._pump();
+          }, this._nextSlot - now);
+        }
+        return;
+      }
+
+      // Map iteration order is insertion order, so runs are served FIFO
+      const [key, entry] = this._queue.entries().next().value as [
+        string,
+        PendingPoll,
+      ];
+      this._queue.delete(key);
+      this._inFlight++;
+      this._nextSlot = now + this._minInterval;
+
+      this._fetchResults(entry.runId, {
+        ...entry.options,
+        signal: entry.controller.signal,
+      })
+        .then(
+          (results) => entry.waiters.forEach((w) => w.resolve(results)),
+          (error) => entry.waiters.forEach((w) => w.reject(error))
+        )
+        .finally(() => {
+          this._inFlight--;
+          this._pump();
+        });
+    }
+  }
+}
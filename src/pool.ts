@@ -0,0 +1,432 @@
+import type { WitriumClient } from "./client.js";
+import {
+  BrowserSessionCreateOptions,
+  BrowserSessionPoolOptions,
+  BrowserSessionPoolStats,
+} from "./types.js";
+import { WitriumClientException, WitriumTimeoutException } from "./errors.js";
+import { abortException, throwIfAborted } from "./utils.js";
+
+const DEFAULT_MAX_SESSIONS = 5;
+const DEFAULT_IDLE_TIMEOUT = 5 * 60 * 1000;
+
+interface IdleSession {
+  sessionId: string;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface Waiter {
+  resolve: (sessionId: string) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * A pool of reusable browser sessions for running many workflows
+ * concurrently. Sessions are created on demand up to `max`, kept warm while
+ * idle, and closed after `idleTimeout` (never going below `min`).
+ */
+export class BrowserSessionPool {
+  private _client: WitriumClient;
+  private _min: number;
+  private _max: number;
+  private _idleTimeout: number;
+  private _acquireTimeout?: number;
+  private _healthCheck: boolean;
+  private _sessionOptions: BrowserSessionCreateOptions;
+  private _warmUp?: (sessionId: string) => Promise<void>;
+
+  private _idle: IdleSession[] = [];
+  private _leased = new Set<string>();
+  private _creating = 0;
+  private _waiters: Waiter[] = [];
+  private _closing = new Set<Promise<void>>();
+  private _draining = false;
+  private _onDrained: (() => void) | null = null;
+
+  constructor(client: WitriumClient, options: BrowserSessionPoolOptions = {}) {
+    this._client = client;
+    this._min = options.min ?? 0;
+    this._max = options.max ?? DEFAULT_MAX_SESSIONS;
+    this._idleTimeout = options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT;
+    this._acquireTimeout = options.acquireTimeout;
+    this._healthCheck = options.healthCheck ?? true;
+    this._sessionOptions = options.sessionOptions ?? {};
+    this._warmUp = options.warmUp;
+
+    if (this._min > this._max) {
+      throw new WitriumClientException(
+        `Pool min size (${this._min}) cannot exceed max size (${this._max})`
+      );
+    }
+  }
+
+  get stats(): BrowserSessionPoolStats {
+    return {
+      idle: this._idle.length,
+      leased: this._leased.size,
+      creating: this._creating,
+      waiting: this._waiters.length,
+    };
+  }
+
+  private _size(): number {
+    return this._idle.length + this._leased.size + this._creating;
+  }
+
+  /**
+   * Create sessions up front until the pool holds `min` of them.
+   */
+  async start(): Promise<void> {
+    const missing = Math.max(0, this._min - this._size());
+    await Promise.all(
+      Array.from({ length: missing }, async () => {
+        this._creating++;
+        let sessionId: string;
+        try {
+          sessionId = await this._create();
+        } finally {
+          this._creating--;
+          this._fillWaiters();
+        }
+        this._handOff(sessionId);
+      })
+    );
+  }
+
+  /**
+   * Lease a healthy session, creating one if the pool has room or waiting
+   * for a release otherwise. Pair every call with `release()`.
+   *
+   * `signal` and `acquireTimeout` cover the whole call, health checks and
+   * session creation included. A session that becomes ready after the caller
+   * gave up goes back to the pool.
+   */
+  async acquire(options: { signal?: AbortSignal } = {}): Promise<string> {
+    throwIfAborted(options.signal);
+    this._assertNotDraining();
+    const startTime = Date.now();
+    const remaining = () =>
+      this._acquireTimeout === undefined
+        ? undefined
+        : this._acquireTimeout - (Date.now() - startTime);
+
+    while (this._idle.length > 0) {
+      // Most recently used first, so the rest can reach their idle timeout
+      const { sessionId, timer } = this._idle.pop()!;
+      if (timer) clearTimeout(timer);
+      this._leased.add(sessionId);
+      const checked = this._isHealthy(sessionId).then((healthy) => {
+        if (!healthy) {
+          this._leased.delete(sessionId);
+          this._destroy(sessionId);
+        }
+        return healthy;
+      });
+      const healthy = await this._race(
+        checked,
+        options.signal,
+        remaining(),
+        (healthy) => {
+          if (healthy) this.release(sessionId);
+        }
+      );
+      if (healthy) {
+        return sessionId;
+      }
+    }
+
+    if (this._size() < this._max) {
+      this._creating++;
+      const created = this._create()
+        .then((sessionId) => {
+          this._leased.add(sessionId);
+          return sessionId;
+        })
+        .finally(() => {
+          this._creating--;
+          this._fillWaiters();
+        });
+      return this._race(created, options.signal, remaining(), (sessionId) =>
+        this.release(sessionId)
+      );
+    }
+
+    return this._enqueue(options.signal, remaining());
+  }
+
+  /**
+   * Return a leased session to the pool. Pass `destroy: true` to close it
+   * instead, e.g. when its browser ended up in a bad state.
+   */
+  release(sessionId: string, options: { destroy?: boolean } = {}): void {
+    if (!this._leased.delete(sessionId)) {
+      return;
+    }
+    if (options.destroy) {
+      this._destroy(sessionId);
+      return;
+    }
+    this._handOff(sessionId);
+  }
+
+  /**
+   * Run a callback with a leased session as the client's active session, so
+   * `runWorkflow()` and `runTalent()` calls inside use it automatically.
+   */
+  async withSession<T>(
+    callback: (sessionId: string) => Promise<T>,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<T> {
+    const sessionId = await this.acquire(options);
+    try {
+      return await this._client.withSessionId(sessionId, callback);
+    } finally {
+      this.release(sessionId);
+    }
+  }
+
+  /**
+   * Stop handing out sessions, wait for leased sessions to be released and
+   * close everything. With `force`, leased sessions are closed immediately.
+   */
+  async drain(options: { force?: boolean } = {}): Promise<void> {
+    this._draining = true;
+
+    for (const waiter of this._waiters.splice(0)) {
+      waiter.reject(this._drainingException());
+    }
+    for (const idle of this._idle.splice(0)) {
+      if (idle.timer) clearTimeout(idle.timer);
+      this._destroy(idle.sessionId);
+    }
+    if (options.force) {
+      for (const sessionId of this._leased) {
+        this._destroy(sessionId);
+      }
+      this._leased.clear();
+    }
+
+    if (this._leased.size > 0 || this._creating > 0) {
+      await new Promise<void>((resolve) => {
+        this._onDrained = resolve;
+      });
+    }
+    await Promise.all(this._closing);
+  }
+
+  private async _create(): Promise<string> {
+    const session = await this._client.createBrowserSession(
+      this._sessionOptions
+    );
+    if (this._warmUp) {
+      try {
+        await this._client.withSessionId(session.uuid, this._warmUp);
+      } catch (error) {
+        this._destroy(session.uuid);
+        throw error;
+      }
+    }
+    return session.uuid;
+  }
+
+  private async _isHealthy(sessionId: string): Promise<boolean> {
+    if (!this._healthCheck) {
+      return true;
+    }
+    try {
+      const session = await this._client.getBrowserSession(sessionId);
+      return session.status === "active" && !session.isBusy;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Give a free session to the next waiter, or park it as idle.
+   */
+  private _handOff(sessionId: string): void {
+    if (this._draining) {
+      this._destroy(sessionId);
+      return;
+    }
+    const waiter = this._waiters.shift();
+    if (waiter) {
+      this._leased.add(sessionId);
+      waiter.resolve(sessionId);
+      return;
+    }
+
+    const idle: IdleSession = { sessionId, timer: null };
+    idle.timer = setTimeout(() => {
+      idle.timer = null;
+      if (this._size() > this._min) {
+        const index = this._idle.indexOf(idle);
+        if (index !== -1) {
+          this._idle.splice(index, 1);
+          this._destroy(sessionId);
+        }
+      }
+    }, this._idleTimeout);
+    // Idle sessions should not keep the process alive
+    idle.timer.unref?.();
+    this._idle.push(idle);
+  }
+
+  private _destroy(sessionId: string): void {
+    const closing = this._client
+      .closeBrowserSession(sessionId, { force: true })
+      .then(
+        () => undefined,
+        () => undefined // Ignore cleanup errors
+      )
+      .finally(() => this._closing.delete(closing));
+    this._closing.add(closing);
+    this._fillWaiters();
+  }
+
+  /**
+   * Start creating sessions for waiters while there is room in the pool.
+   */
+  private _fillWaiters(): void {
+    if (this._draining) {
+      if (this._leased.size === 0 && this._creating === 0) {
+        this._onDrained?.();
+        this._onDrained = null;
+      }
+      return;
+    }
+    while (this._waiters.length > this._creating && this._size() < this._max) {
+      this._creating++;
+      this._create().then(
+        (sessionId) => {
+          this._creating--;
+          this._handOff(sessionId);
+          this._fillWaiters();
+        },
+        (error) => {
+          this._creating--;
+          this._waiters.shift()?.reject(error);
+          this._fillWaiters();
+        }
+      );
+    }
+  }
+
+  /**
+   * Wait for `work` unless `signal` aborts or `timeout` passes first. What
+   * `work` produces after the caller gave up is passed to `abandon`.
+   */
+  private _race<T>(
+    work: Promise<T>,
+    signal: AbortSignal | undefined,
+    timeout: number | undefined,
+    abandon: (value: T) => void
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      let gaveUp = false;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const cleanup = () => {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const giveUp = (error: unknown) => {
+        gaveUp = true;
+        cleanup();
+        reject(error);
+      };
+      const onAbort = () => giveUp(abortException(signal!));
+
+      work.then(
+        (value) => {
+          if (gaveUp) {
+            abandon(value);
+            return;
+          }
+          cleanup();
+          resolve(value);
+        },
+        (error) => {
+          if (gaveUp) return;
+          cleanup();
+          reject(error);
+        }
+      );
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      if (timeout !== undefined) {
+        timer = setTimeout(
+          () => giveUp(this._acquireTimeoutException()),
+          Math.max(0, timeout)
+        );
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private _enqueue(
+    signal: AbortSignal | undefined,
+    timeout: number | undefined
+  ): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const remove = () => {
+        const index = this._waiters.indexOf(waiter);
+        if (index !== -1) this._waiters.splice(index, 1);
+      };
+      const cleanup = () => {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const onAbort = () => {
+        remove();
+        cleanup();
+        reject(abortException(signal!));
+      };
+      const waiter: Waiter = {
+        resolve: (sessionId) => {
+          cleanup();
+          resolve(sessionId);
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+      };
+
+      if (signal?.aborted) {
+        reject(abortException(signal));
+        return;
+      }
+      if (timeout !== undefined) {
+        timer = setTimeout(
+          () => {
+            remove();
+            cleanup();
+            reject(this._acquireTimeoutException());
+          },
+          Math.max(0, timeout)
+        );
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this._waiters.push(waiter);
+    });
+  }
+
+  private _acquireTimeoutException(): WitriumTimeoutException {
+    return new WitriumTimeoutException(
+      `No browser session became available within ${this._acquireTimeout! / 1000} seconds`
+    );
+  }
+
+  private _assertNotDraining(): void {
+    if (this._draining) {
+      throw this._drainingException();
+    }
+  }
+
+  private _drainingException(): WitriumClientException {
+    return new WitriumClientException("Browser session pool is draining");
+  }
+}
@@ -0,0 +1,191 @@
+import {
+  RateLimiterMetrics,
+  RateLimiterOptions,
+  RequestPriority,
+} from "./types.js";
+import { WitriumClientException } from "./errors.js";
+import { abortException } from "./utils.js";
+
+const PRIORITIES: RequestPriority[] = ["high", "normal", "low"];
+const DEFAULT_AGING_INTERVAL = 5000;
+
+interface Waiter {
+  enqueuedAt: number;
+  grant: () => void;
+}
+
+/**
+ * A token bucket shared by every request of a client (or of several clients,
+ * when the same instance is passed to each). Requests wait in one FIFO queue
+ * per priority, and higher priorities are served first: submissions and
+ * cancellations are `high`, status polls are `low`. A queued request moves
+ * up one priority for every `agingInterval` it has waited, so a steady flow
+ * of submissions cannot starve status polls.
+ */
+export class RateLimiter {
+  private _rate: number;
+  private _burst: number;
+  private _maxConcurrent: number;
+  private _agingInterval: number;
+
+  private _tokens: number;
+  private _lastRefill = Date.now();
+  private _inFlight = 0;
+  private _queues: Record<RequestPriority, Waiter[]> = {
+    high: [],
+    normal: [],
+    low: [],
+  };
+  private _timer: ReturnType<typeof setTimeout> | null = null;
+  private _granted = 0;
+  private _totalWait = 0;
+  private _maxWait = 0;
+
+  constructor(options: RateLimiterOptions) {
+    if (!(options.requestsPerSecond > 0)) {
+      throw new WitriumClientException(
+        "Rate limiter requestsPerSecond must be greater than 0"
+      );
+    }
+    this._rate = options.requestsPerSecond;
+    this._burst = options.burst ?? Math.ceil(options.requestsPerSecond);
+    this._maxConcurrent = options.maxConcurrent ?? Infinity;
+    if (!(this._burst >= 1)) {
+      throw new WitriumClientException("Rate limiter burst must be at least 1");
+    }
+    if (!(this._maxConcurrent >= 1)) {
+      throw new WitriumClientException(
+        "Rate limiter maxConcurrent must be at least 1"
+      );
+    }
+    this._agingInterval = options.agingInterval ?? DEFAULT_AGING_INTERVAL;
+    if (!(this._agingInterval > 0)) {
+      throw new WitriumClientException(
+        "Rate limiter agingInterval must be greater than 0"
+      );
+    }
+    this._tokens = this._burst;
+  }
+
+  get metrics(): RateLimiterMetrics {
+    this._refill();
+    const queuedByPriority = {
+      high: this._queues.high.length,
+      normal: this._queues.normal.length,
+      low: this._queues.low.length,
+    };
+    return {
+      queued:
+        queuedByPriority.high + queuedByPriority.normal + queuedByPriority.low,
+      queuedByPriority,
+      inFlight: this._inFlight,
+      availableTokens: Math.floor(this._tokens),
+      granted: this._granted,
+      averageWait: this._granted > 0 ? this._totalWait / this._granted : 0,
+      maxWait: this._maxWait,
+    };
+  }
+
+  /**
+   * Wait for a token and a concurrency slot. Resolves with a function that
+   * must be called once the request has finished.
+   */
+  acquire(
+    priority: RequestPriority = "normal",
+    signal?: AbortSignal
+  ): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortException(signal));
+        return;
+      }
+
+      const queue = this._queues[priority];
+      const onAbort = () => {
+        const index = queue.indexOf(waiter);
+        if (index !== -1) queue.splice(index, 1);
+        reject(abortException(signal!));
+      };
+      const waiter: Waiter = {
+        enqueuedAt: Date.now(),
+        grant: () => {
+          signal?.removeEventListener("abort", onAbort);
+          let released = false;
+          resolve(() => {
+            if (released) return;
+            released = true;
+            this._inFlight--;
+            this._pump();
+          });
+        },
+      };
+      queue.push(waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this._pump();
+    });
+  }
+
+  private _refill(): void {
+    const now = Date.now();
+    this._tokens = Math.min(
+      this._burst,
+      this._tokens + ((now - this._lastRefill) / 1000) * this._rate
+    );
+    this._lastRefill = now;
+  }
+
+  /**
+   * The queue whose oldest request goes next: the one with the best priority
+   * once aged, with ties going to the request that waited longest.
+   */
+  private _nextQueue(): Waiter[] | undefined {
+    const now = Date.now();
+    let next: Waiter[] | undefined;
+    let nextRank = Infinity;
+    PRIORITIES.forEach((priority, index) => {
+      const queue = this._queues[priority];
+      if (queue.length === 0) return;
+      const waited = now - queue[0].enqueuedAt;
+      const rank = index - Math.floor(waited / this._agingInterval);
+      if (
+        rank < nextRank ||
+        (rank === nextRank && queue[0].enqueuedAt < next![0].enqueuedAt)
+      ) {
+        next = queue;
+        nextRank = rank;
+      }
+    });
+    return next;
+  }
+
+  private _pump(): void {
+    while (this._inFlight < this._maxConcurrent) {
+      const queue = this._nextQueue();
+      if (!queue) {
+        return;
+      }
+
+      this._refill();
+      if (this._tokens < 1) {
+        if (this._timer === null) {
+          const delay = ((1 - this._tokens) / this._rate) * 1000;
+          this._timer = setTimeout(() => {
+            this._timer = null;
+            this._pump();
+          }, Math.ceil(delay));
+        }
+        return;
+      }
+
+      const waiter = queue.shift()!;
+      const wait = Date.now() - waiter.enqueuedAt;
+      this._tokens -= 1;
+      this._inFlight++;
+      this._granted++;
+      this._totalWait += wait;
+      this._maxWait = Math.max(this._maxWait, wait);
+      waiter.grant();
+    }
+  }
+}
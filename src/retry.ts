@@ -0,0 +1,79 @@
+import { RetryOptions } from "./types.js";
+import { isRequestError } from "./utils.js";
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  backoffBase: 500,
+  backoffCap: 30000,
+  jitter: true,
+  retryStatusCodes: [408, 429, 500, 502, 503, 504],
+  retryMethods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+};
+
+/**
+ * Merge a per-call retry override on top of the client-level policy.
+ * `false` disables retries for the call entirely.
+ */
+export function resolveRetryPolicy(
+  clientPolicy: Required<RetryOptions>,
+  override?: RetryOptions | false
+): Required<RetryOptions> {
+  if (override === false) {
+    return { ...clientPolicy, maxAttempts: 1 };
+  }
+  return { ...clientPolicy, ...override };
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (
+    (typeof value !== "string" && typeof value !== "number") ||
+    String(value).trim() === ""
+  ) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function isRetryableError(
+  error: unknown,
+  policy: Required<RetryOptions>
+): boolean {
+  if (!isRequestError(error)) {
+    return false;
+  }
+  if (!error.response) {
+    // Connection-level failure; never retry a request the caller cancelled
+    return error.code !== "ERR_CANCELED";
+  }
+  return policy.retryStatusCodes.includes(error.response.status);
+}
+
+/**
+ * Delay before the next attempt: `Retry-After` when the server sent one,
+ * otherwise capped exponential backoff with optional full jitter.
+ */
+export function computeRetryDelay(
+  error: unknown,
+  attempt: number,
+  policy: Required<RetryOptions>
+): number {
+  if (isRequestError(error) && error.response) {
+    const retryAfter = parseRetryAfter(error.response.headers?.["retry-after"]);
+    if (retryAfter !== undefined) {
+      return retryAfter;
+    }
+  }
+  const backoff = Math.min(
+    policy.backoffCap,
+    policy.backoffBase * 2 ** (attempt - 1)
+  );
+  return policy.jitter ? Math.random() * backoff : backoff;
+}
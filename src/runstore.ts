@@ -0,0 +1,223 @@
+import {
+  FileRunStoreOptions,
+  RunStore,
+  TrackedRun,
+  TrackedSession,
+} from "./types.js";
+import { WorkflowRunStatus } from "./constants.js";
+import { WitriumClientException } from "./errors.js";
+import { loadBuiltinAsync } from "./utils.js";
+
+const DEFAULT_MAX_FINISHED_AGE = 24 * 60 * 60 * 1000;
+// Appended lines that trigger a compaction, when they also outnumber records
+const COMPACT_AFTER_LINES = 1000;
+
+/**
+ * Keeps tracked runs and sessions in memory. Useful in tests, and when the
+ * store only needs to outlive a client rather than the process.
+ */
+export class MemoryRunStore implements RunStore {
+  protected _runs = new Map<string, TrackedRun>();
+  protected _sessions = new Map<string, TrackedSession>();
+
+  async saveRun(run: TrackedRun): Promise<void> {
+    this._runs.set(run.runId, { ...run });
+  }
+
+  async getRun(runId: string): Promise<TrackedRun | undefined> {
+    const run = this._runs.get(runId);
+    return run && { ...run };
+  }
+
+  async listRuns(): Promise<TrackedRun[]> {
+    return [...this._runs.values()].map((run) => ({ ...run }));
+  }
+
+  async deleteRun(runId: string): Promise<void> {
+    this._runs.delete(runId);
+  }
+
+  async saveSession(session: TrackedSession): Promise<void> {
+    this._sessions.set(session.sessionId, { ...session });
+  }
+
+  async listSessions(): Promise<TrackedSession[]> {
+    return [...this._sessions.values()].map((session) => ({ ...session }));
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this._sessions.delete(sessionId);
+  }
+}
+
+type LogEntry =
+  | { type: "run"; run: TrackedRun }
+  | { type: "runDeleted"; runId: string }
+  | { type: "session"; session: TrackedSession }
+  | { type: "sessionDeleted"; sessionId: string };
+
+/**
+ * Keeps tracked runs and sessions in a JSON-lines file, one change per line.
+ * The file is read and compacted on first use, and a torn last line left by
+ * a crash is skipped. It is compacted again once the appended lines outgrow
+ * the records, and every compaction drops runs that finished more than
+ * `maxFinishedAge` ago. Needs file system access (Node.js, Bun, Deno).
+ *
+ * Give each worker its own file: a store shared between processes would
+ * let one worker resume or close another's runs and sessions.
+ */
+export class FileRunStore extends MemoryRunStore {
+  private _path: string;
+  private _maxFinishedAge: number;
+  private _ready?: Promise<void>;
+  // Appends are chained so lines are written whole and in order
+  private _writes: Promise<void> = Promise.resolve();
+  private _appended = 0;
+
+  constructor(path: string, options: FileRunStoreOptions = {}) {
+    super();
+    this._path = path;
+    this._maxFinishedAge = options.maxFinishedAge ?? DEFAULT_MAX_FINISHED_AGE;
+  }
+
+  async saveRun(run: TrackedRun): Promise<void> {
+    await this._load();
+    await super.saveRun(run);
+    await this._append({ type: "run", run });
+  }
+
+  async getRun(runId: string): Promise<TrackedRun | undefined> {
+    await this._load();
+    return super.getRun(runId);
+  }
+
+  async listRuns(): Promise<TrackedRun[]> {
+    await this._load();
+    return super.listRuns();
+  }
+
+  async deleteRun(runId: string): Promise<void> {
+    await this._load();
+    await super.deleteRun(runId);
+    await this._append({ type: "runDeleted", runId });
+  }
+
+  async saveSession(session: TrackedSession): Promise<void> {
+    await this._load();
+    await super.saveSession(session);
+    await this._append({ type: "session", session });
+  }
+
+  async listSessions(): Promise<TrackedSession[]> {
+    await this._load();
+    return super.listSessions();
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await this._load();
+    await super.deleteSession(sessionId);
+    await this._append({ type: "sessionDeleted", sessionId });
+  }
+
+  private async _fs(): Promise<typeof import("fs").promises> {
+    const fs = (await loadBuiltinAsync<typeof import("fs")>("fs"))?.promises;
+    if (!fs) {
+      throw new WitriumClientException(
+        "FileRunStore needs file system access; use MemoryRunStore or a custom RunStore in this runtime"
+      );
+    }
+    return fs;
+  }
+
+  private _load(): Promise<void> {
+    this._ready ??= this._replay().catch((error) => {
+      // Let the next call try again
+      this._ready = undefined;
+      throw error;
+    });
+    return this._ready;
+  }
+
+  private async _replay(): Promise<void> {
+    const fs = await this._fs();
+    let contents = "";
+    try {
+      contents = await fs.readFile(this._path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+
+    for (const line of contents.split("\n")) {
+      if (line.trim() === "") continue;
+      let entry: LogEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      switch (entry.type) {
+        case "run":
+          this._runs.set(entry.run.runId, entry.run);
+          break;
+        case "runDeleted":
+          this._runs.delete(entry.runId);
+          break;
+        case "session":
+          this._sessions.set(entry.session.sessionId, entry.session);
+          break;
+        case "sessionDeleted":
+          this._sessions.delete(entry.sessionId);
+          break;
+      }
+    }
+    await this._compact();
+  }
+
+  /**
+   * Rewrite only the current records, replacing the file atomically.
+   */
+  private async _compact(): Promise<void> {
+    const fs = await this._fs();
+    const cutoff = Date.now() - this._maxFinishedAge;
+    for (const run of this._runs.values()) {
+      if (
+        WorkflowRunStatus.TERMINAL_STATUSES.includes(run.status as any) &&
+        new Date(run.updatedAt).getTime() < cutoff
+      ) {
+        this._runs.delete(run.runId);
+      }
+    }
+
+    const entries: LogEntry[] = [
+      ...[...this._runs.values()].map((run) => ({ type: "run" as const, run })),
+      ...[...this._sessions.values()].map((session) => ({
+        type: "session" as const,
+        session,
+      })),
+    ];
+    const temporary = `${this._path}.tmp`;
+    await fs.writeFile(
+      temporary,
+      entries.map((entry) => `${JSON.stringify(entry)}\n`).join("")
+    );
+    await fs.rename(temporary, this._path);
+    this._appended = 0;
+  }
+
+  private _append(entry: LogEntry): Promise<void> {
+    const write = this._writes.then(async () => {
+      const fs = await this._fs();
+      await fs.appendFile(this._path, `${JSON.stringify(entry)}\n`);
+      this._appended++;
+      if (
+        this._appended >= COMPACT_AFTER_LINES &&
+        this._appended > this._runs.size + this._sessions.size
+      ) {
+        await this._compact();
+      }
+    });
+    // Keep the chain going after a failed write
+    this._writes = write.catch(() => {});
+    return write;
+  }
+}
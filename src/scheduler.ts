@@ -0,0 +1,401 @@
+import type { WitriumClient } from "./client.js";
+import {
+  Clock,
+  ScheduleDefinition,
+  ScheduledRun,
+  SchedulerStopOptions,
+  TalentRunResult,
+  WitriumSchedulerOptions,
+  WorkflowRunResult,
+} from "./types.js";
+import { WorkflowRunStatus } from "./constants.js";
+import {
+  WitriumClientException,
+  WitriumTerminalStateException,
+} from "./errors.js";
+import { assertTimeZone, nextCronTime, parseCron } from "./cron.js";
+import { systemClock } from "./utils.js";
+
+// Occurrences this late still count as on time with catch-up "none"
+const MISFIRE_TOLERANCE = 60 * 1000;
+// setTimeout fires immediately for longer delays
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+const MAX_CATCH_UP_RUNS = 100;
+
+interface ActiveRun {
+  run: ScheduledRun;
+  controller: AbortController;
+  done: Promise<void>;
+}
+
+interface ScheduleEntry {
+  definition: ScheduleDefinition;
+  // Next occurrence strictly after a time, or null when there is none
+  next: (after: number) => number | null;
+  anchor: number | null; // start of `every` intervals
+  cursor: number; // latest occurrence handled
+  armed: boolean; // cursor and anchor are set, and kept across restarts
+  timer: unknown;
+  active: ActiveRun | null;
+  queue: ScheduledRun[];
+}
+
+function toTime(value: string | number | Date, name: string): number {
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) {
+    throw new WitriumClientException(
+      `Schedule '${name}' has an invalid lastRunAt`
+    );
+  }
+  return time;
+}
+
+/**
+ * Runs workflows and talents on cron or interval schedules, inside this
+ * process. Each run is submitted and then polled until it ends, so hooks
+ * see its result and the overlap policy knows whether it is still going.
+ *
+ * - `overlap` decides what happens when a run is due while the previous one
+ *   is still active: "skip" it, "queue" it behind the active run, or
+ *   "cancel-previous" (cancel the active run with `cancelRun()` and start
+ *   the new one once that finished).
+ * - `catchUp` decides what happens to occurrences missed while the process
+ *   was stopped or asleep: drop them ("none"), run the most recent one
+ *   ("latest"), or run each of them ("all", up to the last 100). Pass
+ *   `lastRunAt` to catch up across restarts.
+ *
+ * Runs cancelled by the scheduler call neither `onSuccess` nor `onFailure`.
+ */
+export class WitriumScheduler {
+  private _client: WitriumClient;
+  private _clock: Clock;
+  private _random: () => number;
+  private _hooks: WitriumSchedulerOptions;
+  private _entries = new Map<string, ScheduleEntry>();
+  private _running = new Set<Promise<void>>();
+  private _started = false;
+
+  constructor(client: WitriumClient, options: WitriumSchedulerOptions = {}) {
+    this._client = client;
+    this._clock = options.clock ?? systemClock;
+    this._random = options.random ?? Math.random;
+    this._hooks = options;
+  }
+
+  /**
+   * Add a schedule. Schedules added after `start()` are armed at once.
+   */
+  add(definition: ScheduleDefinition): this {
+    const { name } = definition;
+    if (!name) {
+      throw new WitriumClientException("Every schedule needs a name");
+    }
+    if (this._entries.has(name)) {
+      throw new WitriumClientException(`Duplicate schedule name '${name}'`);
+    }
+    if ("workflow" in definition === "talent" in definition) {
+      throw new WitriumClientException(
+        `Schedule '${name}' must have exactly one of workflow or talent`
+      );
+    }
+    if ((definition.cron === undefined) === (definition.every === undefined)) {
+      throw new WitriumClientException(
+        `Schedule '${name}' must have exactly one of cron or every`
+      );
+    }
+    if (definition.timeZone !== undefined) {
+      assertTimeZone(definition.timeZone);
+    }
+
+    const entry: ScheduleEntry = {
+      definition,
+      next: () => null,
+      anchor: null,
+      cursor: 0,
+      armed: false,
+      timer: null,
+      active: null,
+      queue: [],
+    };
+    if (definition.cron !== undefined) {
+      const cron = parseCron(definition.cron);
+      entry.next = (after) => nextCronTime(cron, after, definition.timeZone);
+      if (entry.next(this._clock.now()) === null) {
+        throw new WitriumClientException(
+          `Cron expression '${definition.cron}' of schedule '${name}' never matches`
+        );
+      }
+    } else {
+      const every = definition.every!;
+      if (!(every > 0)) {
+        throw new WitriumClientException(
+          `Schedule '${name}' needs a positive interval`
+        );
+      }
+      entry.next = (after) => {
+        const anchor = entry.anchor ?? this._clock.now();
+        return anchor + (Math.floor((after - anchor) / every) + 1) * every;
+      };
+    }
+    if (definition.lastRunAt !== undefined) {
+      toTime(definition.lastRunAt, name);
+    }
+
+    this._entries.set(name, entry);
+    if (this._started) this._arm(entry);
+    return this;
+  }
+
+  /**
+   * Remove a schedule and drop its queued runs. An active run is left to
+   * finish. Returns false when there is no such schedule.
+   */
+  remove(name: string): boolean {
+    const entry = this._entries.get(name);
+    if (!entry) return false;
+    this._disarm(entry);
+    entry.queue = [];
+    this._entries.delete(name);
+    return true;
+  }
+
+  /**
+   * Start triggering runs. After a `stop()`, each schedule picks up from the
+   * last occurrence it handled, and `catchUp` decides what happens to the
+   * ones missed in between.
+   */
+  start(): void {
+    if (this._started) return;
+    this._started = true;
+    for (const entry of this._entries.values()) {
+      this._arm(entry);
+    }
+  }
+
+  /**
+   * Stop triggering runs and drop queued ones, then wait for active runs to
+   * end (or cancel them with `cancelRuns`).
+   */
+  async stop(options: SchedulerStopOptions = {}): Promise<void> {
+    this._started = false;
+    for (const entry of this._entries.values()) {
+      this._disarm(entry);
+      entry.queue = [];
+      if (options.cancelRuns) entry.active?.controller.abort();
+    }
+    await this.idle();
+  }
+
+  /**
+   * Resolve once no run is active or queued.
+   */
+  async idle(): Promise<void> {
+    // Queued runs start as active ones finish, so check again after each
+    while (this._running.size > 0) {
+      await Promise.all(this._running);
+    }
+  }
+
+  /**
+   * The next time a schedule is due, as an ISO timestamp, or null when it
+   * will not run again. Jitter is not included.
+   */
+  nextRunAt(name: string): string | null {
+    const entry = this._entries.get(name);
+    if (!entry) {
+      throw new WitriumClientException(`Unknown schedule '${name}'`);
+    }
+    const after = entry.armed ? entry.cursor : this._startTime(entry);
+    const next = entry.next(after);
+    return next === null ? null : new Date(next).toISOString();
+  }
+
+  private _startTime(entry: ScheduleEntry): number {
+    const { lastRunAt, name } = entry.definition;
+    return lastRunAt === undefined
+      ? this._clock.now()
+      : toTime(lastRunAt, name);
+  }
+
+  private _arm(entry: ScheduleEntry): void {
+    // lastRunAt only applies the first time; restarts keep the cursor
+    if (!entry.armed) {
+      entry.cursor = this._startTime(entry);
+      entry.anchor = entry.cursor;
+      entry.armed = true;
+    }
+    const next = entry.next(entry.cursor);
+    if (next === null) return;
+    const jitter = entry.definition.jitter ?? 0;
+    const wakeAt = next + Math.floor(this._random() * jitter);
+    const delay = Math.max(0, wakeAt - this._clock.now());
+    entry.timer = this._clock.setTimeout(
+      () => this._wake(entry),
+      // Longer waits wake up early and arm again
+      Math.min(delay, MAX_TIMER_DELAY)
+    );
+  }
+
+  private _disarm(entry: ScheduleEntry): void {
+    if (entry.timer !== null) {
+      this._clock.clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+  }
+
+  private _wake(entry: ScheduleEntry): void {
+    entry.timer = null;
+    const now = this._clock.now();
+    const due: number[] = [];
+    for (
+      let time = entry.next(entry.cursor);
+      time !== null && time <= now;
+      time = entry.next(time)
+    ) {
+      due.push(time);
+      if (due.length > MAX_CATCH_UP_RUNS) due.shift();
+    }
+    if (due.length === 0) {
+      this._arm(entry);
+      return;
+    }
+
+    const { catchUp = "none", jitter = 0 } = entry.definition;
+    const latest = due[due.length - 1];
+    const onTime = now - latest <= MISFIRE_TOLERANCE + jitter;
+    const fire =
+      catchUp === "all" ? due : catchUp === "latest" || onTime ? [latest] : [];
+    entry.cursor = latest;
+    this._arm(entry);
+
+    for (const time of fire) {
+      this._dispatch(entry, {
+        schedule: entry.definition.name,
+        scheduledAt: new Date(time).toISOString(),
+        startedAt: null,
+        caughtUp: time !== latest || !onTime,
+        runId: null,
+      });
+    }
+  }
+
+  private _dispatch(entry: ScheduleEntry, run: ScheduledRun): void {
+    if (!entry.active) {
+      this._start(entry, run);
+      return;
+    }
+    switch (entry.definition.overlap ?? "skip") {
+      case "skip":
+        void this._callHooks(entry.definition, "onSkip", run);
+        break;
+      case "queue":
+        entry.queue.push(run);
+        break;
+      case "cancel-previous":
+        // Only the newest run waits; it starts once the cancel went through
+        entry.queue = [run];
+        entry.active.controller.abort();
+        break;
+    }
+  }
+
+  private _start(entry: ScheduleEntry, run: ScheduledRun): void {
+    const controller = new AbortController();
+    run.startedAt = new Date(this._clock.now()).toISOString();
+    const done = this._execute(entry.definition, run, controller.signal).then(
+      () => {
+        this._running.delete(done);
+        entry.active = null;
+        const queued = entry.queue.shift();
+        if (queued && this._entries.get(entry.definition.name) === entry) {
+          this._start(entry, queued);
+        }
+      }
+    );
+    this._running.add(done);
+    entry.active = { run, controller, done };
+  }
+
+  private async _execute(
+    definition: ScheduleDefinition,
+    run: ScheduledRun,
+    signal: AbortSignal
+  ): Promise<void> {
+    let result: WorkflowRunResult | TalentRunResult;
+    try {
+      const args =
+        typeof definition.args === "function"
+          ? definition.args(run)
+          : definition.args;
+      result =
+        "workflow" in definition
+          ? ((await this._client.runWorkflowAndWait(definition.workflow, {
+              ...definition.options,
+              args,
+              signal,
+              cancelOnAbort: true,
+            })) as WorkflowRunResult)
+          : await this._client.runTalentAndWait(definition.talent, {
+              ...definition.options,
+              args,
+              signal,
+              cancelOnAbort: true,
+            });
+    } catch (error) {
+      if (error instanceof WitriumClientException && error.runId) {
+        run.runId = error.runId;
+      }
+      if (!signal.aborted) {
+        await this._callHooks(definition, "onFailure", run, error);
+      }
+      return;
+    }
+
+    run.runId = result.runId;
+    if (result.status === WorkflowRunStatus.COMPLETED) {
+      await this._callHooks(definition, "onSuccess", run, result);
+    } else {
+      const statusName = WorkflowRunStatus.getStatusName(result.status);
+      await this._callHooks(
+        definition,
+        "onFailure",
+        run,
+        new WitriumTerminalStateException(
+          `Scheduled run of '${run.schedule}' reached terminal status '${statusName}' without completing`,
+          {
+            runId: result.runId,
+            status: result.status,
+            targetStatus: WorkflowRunStatus.COMPLETED,
+          }
+        )
+      );
+    }
+  }
+
+  /**
+   * Call a hook of the schedule, then the scheduler-wide one.
+   */
+  private async _callHooks(
+    definition: ScheduleDefinition,
+    hook: "onSuccess" | "onFailure" | "onSkip",
+    run: ScheduledRun,
+    value?: unknown
+  ): Promise<void> {
+    for (const hooks of [definition, this._hooks]) {
+      try {
+        if (hook === "onSkip") {
+          await hooks.onSkip?.(run);
+        } else if (hook === "onSuccess") {
+          await hooks.onSuccess?.(
+            value as WorkflowRunResult | TalentRunResult,
+            run
+          );
+        } else {
+          await hooks.onFailure?.(value, run);
+        }
+      } catch {
+        // A failing hook must not stop the schedule
+      }
+    }
+  }
+}
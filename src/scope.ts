@@ -0,0 +1,55 @@
+import { WitriumClientException } from "./errors.js";
+import { loadBuiltin } from "./utils.js";
+
+type AsyncHooks = typeof import("async_hooks");
+
+/**
+ * Holds the active browser session of a client for the duration of a
+ * callback.
+ */
+export interface SessionScope {
+  getStore(): string | undefined;
+  run<T>(sessionId: string, callback: () => Promise<T>): Promise<T>;
+}
+
+async function importAsyncHooks(): Promise<AsyncHooks | undefined> {
+  // A variable specifier keeps bundlers from resolving the module for
+  // browser builds
+  const specifier = "node:async_hooks";
+  try {
+    return await import(/* webpackIgnore: true */ specifier);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Track the active session with AsyncLocalStorage (Node, Bun, Deno, Workers
+ * with Node compatibility), so overlapping scopes never see each other's
+ * session. It is loaded on first use, through a dynamic import where the
+ * module cannot be loaded synchronously (the ESM build on older Node).
+ * Runtimes without it cannot scope sessions: `run()` throws, and runs must
+ * pass `browserSessionId` themselves.
+ */
+export function createSessionScope(): SessionScope {
+  const AsyncLocalStorage =
+    loadBuiltin<AsyncHooks>("async_hooks")?.AsyncLocalStorage;
+  let storage = AsyncLocalStorage && new AsyncLocalStorage<string>();
+
+  return {
+    // Nothing can be in scope before the first run()
+    getStore: () => storage?.getStore(),
+    async run<T>(sessionId: string, callback: () => Promise<T>): Promise<T> {
+      if (!storage) {
+        const asyncHooks = await importAsyncHooks();
+        if (!asyncHooks?.AsyncLocalStorage) {
+          throw new WitriumClientException(
+            "Session scopes need AsyncLocalStorage (node:async_hooks), which this runtime does not provide; pass browserSessionId to each run instead"
+          );
+        }
+        storage ??= new asyncHooks.AsyncLocalStorage<string>();
+      }
+      return storage.run(sessionId, callback);
+    },
+  };
+}
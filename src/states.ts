@@ -0,0 +1,90 @@
+import type { Method } from "axios";
+import {
+  BrowserState,
+  ListBrowserStates,
+  ListBrowserStatesOptions,
+  RequestOptions,
+} from "./types.js";
+import { paginate } from "./pagination.js";
+
+/**
+ * Sends a request through the owning client and maps failures onto
+ * WitriumClientException subclasses, prefixed with `action`.
+ */
+export type StatesRequest = (
+  method: Method,
+  url: string,
+  action: string,
+  options: RequestOptions & { params?: Record<string, unknown>; data?: unknown }
+) => Promise<any>;
+
+/**
+ * Saved browser states (cookies and storage captured with `preserveState`
+ * and restored with `useStates`). Available as `client.states`.
+ */
+export class StatesClient {
+  private _send: StatesRequest;
+
+  constructor(send: StatesRequest) {
+    this._send = send;
+  }
+
+  async list(
+    options: ListBrowserStatesOptions = {}
+  ): Promise<ListBrowserStates> {
+    const params: Record<string, unknown> = {};
+    if (options.search !== undefined) params.search = options.search;
+    if (options.limit !== undefined) params.limit = options.limit;
+    if (options.offset !== undefined) params.offset = options.offset;
+    return this._send("get", "/v1/states", "Error listing browser states", {
+      ...options,
+      params,
+    });
+  }
+
+  /**
+   * Iterate over every saved state, fetching pages as needed.
+   */
+  iterate(
+    options: ListBrowserStatesOptions = {}
+  ): AsyncGenerator<BrowserState, void, undefined> {
+    return paginate(async (offset, limit) => {
+      const page = await this.list({ ...options, offset, limit });
+      return { items: page.states, totalCount: page.totalCount };
+    }, options);
+  }
+
+  async get(name: string, options: RequestOptions = {}): Promise<BrowserState> {
+    return this._send(
+      "get",
+      `/v1/states/${encodeURIComponent(name)}`,
+      "Error getting browser state",
+      options
+    );
+  }
+
+  async delete(name: string, options: RequestOptions = {}): Promise<void> {
+    await this._send(
+      "delete",
+      `/v1/states/${encodeURIComponent(name)}`,
+      "Error deleting browser state",
+      options
+    );
+  }
+
+  /**
+   * Rename a state. Runs and sessions must then refer to it by `newName`.
+   */
+  async rename(
+    name: string,
+    newName: string,
+    options: RequestOptions = {}
+  ): Promise<BrowserState> {
+    return this._send(
+      "patch",
+      `/v1/states/${encodeURIComponent(name)}`,
+      "Error renaming browser state",
+      { ...options, data: { name: newName } }
+    );
+  }
+}
@@ -0,0 +1,1040 @@
+import {
+  AxiosAdapter,
+  AxiosError,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import { WitriumClient } from "./client.js";
+import {
+  AgentStatus,
+  ArgumentType,
+  ArtifactType,
+  Clock,
+  PollingStrategy,
+  WitriumClientOptions,
+  WorkflowStatus,
+} from "./types.js";
+import { AgentExecutionStatus, WorkflowRunStatus } from "./constants.js";
+import { loadBuiltinAsync, redactHeaders } from "./utils.js";
+
+export interface FakeExecution {
+  instruction?: string; // default: the workflow's instruction at this position
+  status: AgentStatus;
+  result?: unknown;
+  resultFormat?: string;
+  message?: string;
+  errorMessage?: string;
+}
+
+export interface FakeRunStep {
+  status: WorkflowStatus;
+  executions?: FakeExecution[];
+  result?: unknown;
+  resultFormat?: string;
+  message?: string;
+  errorMessage?: string;
+  polls?: number; // result polls spent on this step (default: pollsPerStep)
+}
+
+export interface FakeArtifact {
+  type: ArtifactType;
+  filename: string;
+  contentType?: string; // default: application/octet-stream
+  content: string | Uint8Array;
+}
+
+export interface FakeWorkflowDefinition {
+  name?: string;
+  description?: string;
+  arguments?: { name: string; type?: ArgumentType; required?: boolean }[];
+  instructions?: string[]; // default: ["Run workflow"]
+  outcome?: "C" | "F" | "X"; // terminal status of the generated script
+  failAt?: number; // instruction index that fails (default: the last one)
+  result?: unknown | ((args: Record<string, unknown>) => unknown);
+  errorMessage?: string;
+  steps?: FakeRunStep[]; // replaces the generated progression
+  pollsPerStep?: number; // default: 1
+  artifacts?: FakeArtifact[]; // attached to every run once it ends
+}
+
+export interface FakeTalentDefinition {
+  name?: string;
+  description?: string;
+  arguments?: { name: string; type?: ArgumentType; required?: boolean }[];
+  status?: "C" | "F" | "X"; // terminal status of the run
+  result?: unknown | ((args: Record<string, unknown>) => unknown);
+  errorMessage?: string;
+  pollsPerStep?: number; // default: 1
+}
+
+export interface FakeFailure {
+  method?: string;
+  path?: string | RegExp; // matched against the request path, e.g. /v1/runs/
+  status?: number; // HTTP status of the error response (default: 500)
+  detail?: unknown;
+  headers?: Record<string, string>; // e.g. { "retry-after": "1" }
+  networkError?: string; // fail without a response, with this error code
+  delay?: number; // milliseconds before responding (or failing)
+  times?: number; // requests affected (default: 1, Infinity for all)
+}
+
+export interface FakeRequest {
+  method: string;
+  path: string;
+  params?: Record<string, unknown>;
+  body: any;
+  headers: Record<string, unknown>; // X-Witrium-Key redacted
+}
+
+export interface FakeWitriumServerOptions {
+  now?: () => number; // timestamps of runs and sessions, for tests
+}
+
+interface FakeRun {
+  runId: string;
+  workflowId: string;
+  args: Record<string, unknown>;
+  steps: FakeRunStep[];
+  instructions: string[];
+  stepIndex: number;
+  pollsOnStep: number;
+  startedAt: string;
+  completedAt: string | null;
+  sessionId: string | null;
+  preserveState?: string;
+}
+
+interface FakeTalentRun {
+  runId: string;
+  talentId: string;
+  steps: FakeRunStep[];
+  stepIndex: number;
+  pollsOnStep: number;
+  startedAt: string;
+  completedAt: string | null;
+  preserveState?: string;
+}
+
+interface FakeResponse {
+  status: number;
+  data?: unknown;
+  headers?: Record<string, string>;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly detail: string
+  ) {
+    super(detail);
+  }
+}
+
+/**
+ * Poll without waiting, for tests that drive runs through FakeWitriumServer.
+ */
+export const instantPolling: PollingStrategy = () => 0;
+
+interface FakeTimer {
+  id: number;
+  at: number;
+  callback: () => void;
+}
+
+/**
+ * A clock that only moves when told to, for polling and WitriumScheduler
+ * tests. Pass it as the client's or the scheduler's `clock`, and
+ * `() => clock.now()` as the server's `now` so run timestamps follow it.
+ */
+export class FakeClock implements Clock {
+  private _time: number;
+  private _timers: FakeTimer[] = [];
+  private _nextId = 1;
+
+  constructor(start: string | number | Date = Date.now()) {
+    this._time = new Date(start).getTime();
+  }
+
+  /** Number of timers waiting to fire. */
+  get pending(): number {
+    return this._timers.length;
+  }
+
+  now(): number {
+    return this._time;
+  }
+
+  setTimeout(callback: () => void, delay: number): unknown {
+    const timer = {
+      id: this._nextId++,
+      at: this._time + Math.max(0, delay),
+      callback,
+    };
+    this._timers.push(timer);
+    return timer.id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this._timers = this._timers.filter((timer) => timer.id !== handle);
+  }
+
+  /**
+   * Move time forward, firing due timers in order. Time stops at each timer,
+   * and pending callbacks run first and before each next timer fires, so
+   * waits that are about to start are included.
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this._time + ms;
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    while (true) {
+      const due = this._timers
+        .filter((timer) => timer.at <= target)
+        .sort((a, b) => a.at - b.at || a.id - b.id)[0];
+      if (!due) break;
+      this._timers.splice(this._timers.indexOf(due), 1);
+      this._time = Math.max(this._time, due.at);
+      due.callback();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    this._time = target;
+  }
+
+  /**
+   * Move time forward without firing timers, as when the machine sleeps.
+   * The overdue timers fire on the next `advance()`.
+   */
+  jump(ms: number): void {
+    this._time += ms;
+  }
+}
+
+/**
+ * An in-memory Witrium API for tests. Pass `server.adapter` as the client's
+ * `adapter` option (or use `server.createClient()`) and requests are served
+ * without any network access.
+ *
+ * Runs follow a scripted progression that advances one step per results
+ * poll: pending, running through each instruction, then the terminal status.
+ * Talent runs go through pending, running and their terminal status.
+ */
+export class FakeWitriumServer {
+  /** Every request received, in order. */
+  readonly requests: FakeRequest[] = [];
+
+  private _now: () => number;
+  private _workflows = new Map<string, FakeWorkflowDefinition>();
+  private _talents = new Map<string, FakeTalentDefinition>();
+  private _runs = new Map<string, FakeRun>();
+  private _talentRuns = new Map<string, FakeTalentRun>();
+  private _artifacts = new Map<
+    string,
+    { record: Record<string, unknown>; content: Uint8Array }
+  >();
+  private _sessions = new Map<string, Record<string, unknown>>();
+  private _states = new Map<string, Record<string, unknown>>();
+  private _idempotencyKeys = new Map<string, unknown>();
+  private _failures: FakeFailure[] = [];
+  private _nextId = 1;
+
+  constructor(options: FakeWitriumServerOptions = {}) {
+    this._now = options.now ?? Date.now;
+  }
+
+  readonly adapter: AxiosAdapter = (config) => this._handle(config);
+
+  /**
+   * A `fetch` served by this server, for clients that use a fetch-based
+   * transport: `fetchTransport({ fetch: server.fetch })`. Needs the global
+   * Request and Response (Node 18 and later).
+   */
+  readonly fetch = async (
+    input: RequestInfo | URL,
+    init?: RequestInit
+  ): Promise<Response> => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    const isForm = (request.headers.get("content-type") ?? "").startsWith(
+      "multipart/form-data"
+    );
+    const config = {
+      method: request.method,
+      url: `${url.origin}${url.pathname}`,
+      params: Object.fromEntries(url.searchParams),
+      data:
+        request.body === null
+          ? undefined
+          : isForm
+            ? await request.formData()
+            : await request.text(),
+      headers: Object.fromEntries(request.headers),
+      signal: request.signal,
+    } as unknown as InternalAxiosRequestConfig;
+
+    let response: AxiosResponse;
+    try {
+      response = await this._handle(config);
+    } catch (error) {
+      if (!(error instanceof AxiosError) || !error.response) {
+        if (request.signal.aborted) throw request.signal.reason;
+        throw Object.assign(new TypeError("fetch failed"), { cause: error });
+      }
+      response = error.response;
+    }
+    return toFetchResponse(response);
+  };
+
+  /**
+   * Create a client wired to this server.
+   */
+  createClient(options: WitriumClientOptions = {}): WitriumClient {
+    return new WitriumClient({
+      apiToken: "test-token",
+      retry: false,
+      ...options,
+      adapter: this.adapter,
+    });
+  }
+
+  defineWorkflow(
+    workflowId: string,
+    definition: FakeWorkflowDefinition = {}
+  ): this {
+    this._workflows.set(workflowId, definition);
+    return this;
+  }
+
+  defineTalent(talentId: string, definition: FakeTalentDefinition = {}): this {
+    this._talents.set(talentId, definition);
+    return this;
+  }
+
+  /**
+   * Fail (or delay) the next matching requests. Injected failures are
+   * consumed in the order they were added.
+   */
+  inject(failure: FakeFailure): this {
+    this._failures.push({ times: 1, ...failure });
+    return this;
+  }
+
+  /**
+   * Current API representation of a run's results.
+   */
+  getRunResults(runId: string): Record<string, unknown> | undefined {
+    const run = this._runs.get(runId);
+    return run && this._results(run);
+  }
+
+  private _id(prefix: string): string {
+    return `${prefix}-${this._nextId++}`;
+  }
+
+  private _timestamp(): string {
+    return new Date(this._now()).toISOString();
+  }
+
+  private async _handle(
+    config: InternalAxiosRequestConfig
+  ): Promise<AxiosResponse> {
+    const method = (config.method ?? "get").toUpperCase();
+    const path = (config.url ?? "").replace(/^https?:\/\/[^/]+/, "");
+    const body = parseBody(config.data);
+    this.requests.push({
+      method,
+      path,
+      params: config.params,
+      body,
+      headers: redactHeaders({ ...config.headers }),
+    });
+
+    const failure = this._takeFailure(method, path);
+    if (failure?.delay) {
+      await delay(failure.delay, config.signal as AbortSignal | undefined);
+    }
+    if (failure && (failure.status !== undefined || failure.networkError)) {
+      throw toAxiosError(config, failure);
+    }
+
+    let response: FakeResponse;
+    try {
+      response = this._route(method, path, config.params ?? {}, body, config);
+    } catch (error) {
+      if (!(error instanceof HttpError)) throw error;
+      throw toAxiosError(config, {
+        status: error.status,
+        detail: error.detail,
+      });
+    }
+    if (
+      config.responseType === "stream" &&
+      response.data instanceof Uint8Array
+    ) {
+      const streams = await loadBuiltinAsync<typeof import("stream")>("stream");
+      if (streams) {
+        response.data = streams.Readable.from([response.data], {
+          objectMode: false,
+        });
+      }
+    }
+    return {
+      data: response.data ?? "",
+      status: response.status,
+      statusText: String(response.status),
+      headers: response.headers ?? {},
+      config,
+    };
+  }
+
+  private _takeFailure(method: string, path: string): FakeFailure | undefined {
+    const index = this._failures.findIndex(
+      (failure) =>
+        (failure.method === undefined ||
+          failure.method.toUpperCase() === method) &&
+        (failure.path === undefined ||
+          (typeof failure.path === "string"
+            ? path.startsWith(failure.path)
+            : failure.path.test(path)))
+    );
+    if (index === -1) return undefined;
+    const failure = this._failures[index];
+    failure.times = (failure.times ?? 1) - 1;
+    if (failure.times <= 0) this._failures.splice(index, 1);
+    return failure;
+  }
+
+  private _route(
+    method: string,
+    path: string,
+    params: Record<string, any>,
+    body: any,
+    config: InternalAxiosRequestConfig
+  ): FakeResponse {
+    const segments = path.split("/").filter(Boolean).slice(1); // drop "v1"
+    const [resource, id, action] = segments.map(decodeURIComponent);
+    const key = `${method} ${resource}${id !== undefined ? "/:id" : ""}${action ? `/${action}` : ""}`;
+    // Header names are lowercase when the request came through fetch
+    const idempotencyKey = Object.entries(config.headers ?? {}).find(
+      ([name]) => name.toLowerCase() === "idempotency-key"
+    )?.[1] as string | undefined;
+
+    const idempotent = (create: () => unknown): FakeResponse => {
+      if (idempotencyKey !== undefined) {
+        const cacheKey = `${key} ${idempotencyKey}`;
+        if (!this._idempotencyKeys.has(cacheKey)) {
+          this._idempotencyKeys.set(cacheKey, create());
+        }
+        return { status: 200, data: this._idempotencyKeys.get(cacheKey) };
+      }
+      return { status: 200, data: create() };
+    };
+
+    switch (key) {
+      case "POST workflows/:id/run":
+        return idempotent(() => this._submitRun(id, body));
+      case "GET runs/:id/results":
+        return { status: 200, data: this._poll(this._getRun(id)) };
+      case "POST runs/:id/cancel":
+        return { status: 200, data: this._cancel(this._getRun(id)) };
+      case "GET runs/:id":
+        return { status: 200, data: this._runRecord(this._getRun(id)) };
+      case "GET runs/:id/artifacts":
+        this._getRun(id);
+        return this._page(
+          "artifacts",
+          this._listArtifacts("run_id", id, params),
+          params
+        );
+      case "GET browser-sessions/:id/artifacts":
+        return this._page(
+          "artifacts",
+          this._listArtifacts("session_id", id, params),
+          params
+        );
+      case "GET artifacts/:id":
+        return { status: 200, data: this._getArtifact(id).record };
+      case "GET artifacts/:id/download": {
+        return { status: 200, data: this._getArtifact(id).content };
+      }
+      case "GET runs": {
+        let runs = [...this._runs.values()].reverse();
+        if (params.workflow_id !== undefined)
+          runs = runs.filter((run) => run.workflowId === params.workflow_id);
+        if (params.status !== undefined) {
+          const statuses = String(params.status).split(",");
+          runs = runs.filter((run) =>
+            statuses.includes(currentStep(run).status)
+          );
+        }
+        return this._page(
+          "runs",
+          runs.map((run) => this._runRecord(run)),
+          params
+        );
+      }
+      case "GET workflows":
+        return this._page(
+          "workflows",
+          [...this._workflows.keys()].map((workflowId) =>
+            this._workflowRecord(workflowId)
+          ),
+          params
+        );
+      case "GET workflows/:id":
+        this._getWorkflow(id);
+        return { status: 200, data: this._workflowRecord(id) };
+      case "POST talents/:id/run":
+        return idempotent(() => this._submitTalentRun(id, body));
+      case "GET talent-runs/:id/results":
+        return { status: 200, data: this._pollTalent(this._getTalentRun(id)) };
+      case "POST talent-runs/:id/cancel":
+        return {
+          status: 200,
+          data: this._cancelTalent(this._getTalentRun(id)),
+        };
+      case "GET talents":
+        return this._page(
+          "talents",
+          [...this._talents.keys()].map((talentId) =>
+            this._talentRecord(talentId)
+          ),
+          params
+        );
+      case "GET talents/:id":
+        return { status: 200, data: this._talentRecord(id) };
+      case "POST browser-sessions":
+        return idempotent(() => this._createSession(body));
+      case "GET browser-sessions":
+        return this._page("sessions", [...this._sessions.values()], params);
+      case "GET browser-sessions/:id":
+        return { status: 200, data: this._getSession(id) };
+      case "POST browser-sessions/:id": {
+        const session = this._getSession(id);
+        this._sessions.delete(id);
+        if (body?.preserve_state !== undefined) {
+          this._saveState(body.preserve_state, null);
+        }
+        return { status: 200, data: { ...session, status: "closed" } };
+      }
+      case "GET states":
+        return this._page("states", [...this._states.values()], params);
+      case "GET states/:id":
+        return { status: 200, data: this._getState(id) };
+      case "DELETE states/:id":
+        this._getState(id);
+        this._states.delete(id);
+        return { status: 204 };
+      case "PATCH states/:id": {
+        const state = { ...this._getState(id), name: body.name };
+        this._states.delete(id);
+        this._states.set(body.name, state);
+        return { status: 200, data: state };
+      }
+      default:
+        throw new HttpError(404, `No fake route for ${method} ${path}`);
+    }
+  }
+
+  private _page(
+    field: string,
+    items: unknown[],
+    params: Record<string, any>
+  ): FakeResponse {
+    const offset = Number(params.offset ?? 0);
+    const limit =
+      params.limit !== undefined ? Number(params.limit) : items.length;
+    return {
+      status: 200,
+      data: {
+        [field]: items.slice(offset, offset + limit),
+        total_count: items.length,
+      },
+    };
+  }
+
+  private _getWorkflow(workflowId: string): FakeWorkflowDefinition {
+    const workflow = this._workflows.get(workflowId);
+    if (!workflow) throw new HttpError(404, "Workflow not found");
+    return workflow;
+  }
+
+  private _getRun(runId: string): FakeRun {
+    const run = this._runs.get(runId);
+    if (!run) throw new HttpError(404, "Workflow run not found");
+    return run;
+  }
+
+  private _getTalentRun(runId: string): FakeTalentRun {
+    const run = this._talentRuns.get(runId);
+    if (!run) throw new HttpError(404, "Talent run not found");
+    return run;
+  }
+
+  private _getArtifact(artifactId: string) {
+    const artifact = this._artifacts.get(artifactId);
+    if (!artifact) throw new HttpError(404, "Artifact not found");
+    return artifact;
+  }
+
+  private _listArtifacts(
+    field: "run_id" | "session_id",
+    id: string,
+    params: Record<string, any>
+  ): Record<string, unknown>[] {
+    return [...this._artifacts.values()]
+      .map(({ record }) => record)
+      .filter(
+        (record) =>
+          record[field] === id &&
+          (params.type === undefined || record.type === params.type)
+      );
+  }
+
+  private _getSession(sessionId: string): Record<string, unknown> {
+    const session = this._sessions.get(sessionId);
+    if (!session) throw new HttpError(404, "Browser session not found");
+    return session;
+  }
+
+  private _getState(name: string): Record<string, unknown> {
+    const state = this._states.get(name);
+    if (!state) throw new HttpError(404, "State not found");
+    return state;
+  }
+
+  private _submitRun(workflowId: string, body: any) {
+    const workflow = this._getWorkflow(workflowId);
+    const sessionId = body?.browser_session_id ?? null;
+    if (sessionId !== null) this._getSession(sessionId);
+
+    const args = body?.args ?? {};
+    const instructions = workflow.instructions ?? ["Run workflow"];
+    const run: FakeRun = {
+      runId: this._id("run"),
+      workflowId,
+      args,
+      instructions,
+      steps: (workflow.steps ?? scriptSteps(workflow, instructions, args)).map(
+        (step) => ({ polls: workflow.pollsPerStep ?? 1, ...step })
+      ),
+      stepIndex: 0,
+      pollsOnStep: 0,
+      startedAt: this._timestamp(),
+      completedAt: null,
+      sessionId,
+      preserveState: body?.preserve_state,
+    };
+    this._runs.set(run.runId, run);
+    return {
+      workflow_id: workflowId,
+      run_id: run.runId,
+      status: run.steps[0].status,
+    };
+  }
+
+  /**
+   * Serve a results poll, then move the run along its script.
+   */
+  private _poll(run: FakeRun) {
+    const results = this._results(run);
+    if (advance(run)) this._onStepChange(run);
+    return results;
+  }
+
+  private _onStepChange(run: FakeRun | FakeTalentRun): void {
+    const status = currentStep(run).status;
+    if (!isTerminal(status)) return;
+    run.completedAt = this._timestamp();
+    if ("workflowId" in run) this._attachArtifacts(run);
+    if (status === WorkflowRunStatus.COMPLETED && run.preserveState) {
+      this._saveState(run.preserveState, run.runId);
+    }
+  }
+
+  private _attachArtifacts(run: FakeRun): void {
+    const artifacts = this._workflows.get(run.workflowId)?.artifacts ?? [];
+    for (const artifact of artifacts) {
+      const content =
+        typeof artifact.content === "string"
+          ? new TextEncoder().encode(artifact.content)
+          : artifact.content;
+      const uuid = this._id("artifact");
+      this._artifacts.set(uuid, {
+        content,
+        record: {
+          uuid,
+          type: artifact.type,
+          filename: artifact.filename,
+          content_type: artifact.contentType ?? "application/octet-stream",
+          size_bytes: content.byteLength,
+          run_id: run.runId,
+          session_id: run.sessionId,
+          created_at: this._timestamp(),
+          expires_at: null,
+        },
+      });
+    }
+  }
+
+  private _cancel(run: FakeRun) {
+    if (!isTerminal(currentStep(run).status)) {
+      const step = currentStep(run);
+      run.steps = [
+        ...run.steps.slice(0, run.stepIndex),
+        {
+          ...step,
+          status: WorkflowRunStatus.CANCELLED,
+          executions: step.executions?.map((execution) =>
+            isTerminal(execution.status)
+              ? execution
+              : { ...execution, status: AgentExecutionStatus.CANCELLED }
+          ),
+        },
+      ];
+      this._onStepChange(run);
+    }
+    return this._runRecord(run);
+  }
+
+  private _results(run: FakeRun) {
+    const step = currentStep(run);
+    return {
+      workflow_id: run.workflowId,
+      run_id: run.runId,
+      status: step.status,
+      started_at: run.startedAt,
+      completed_at: run.completedAt,
+      message: step.message ?? null,
+      executions: (step.executions ?? []).map((execution, index) => ({
+        status: execution.status,
+        instruction_order: index + 1,
+        instruction: execution.instruction ?? run.instructions[index] ?? "",
+        result: execution.result ?? null,
+        result_format: execution.resultFormat ?? null,
+        message: execution.message ?? null,
+        error_message: execution.errorMessage ?? null,
+      })),
+      result: step.result ?? null,
+      result_format: step.result !== undefined ? "json" : null,
+      error_message: step.errorMessage ?? null,
+    };
+  }
+
+  private _runRecord(run: FakeRun) {
+    const workflow = this._workflows.get(run.workflowId);
+    const step = currentStep(run);
+    return {
+      uuid: run.runId,
+      session_id: run.sessionId,
+      workflow: {
+        uuid: run.workflowId,
+        name: workflow?.name ?? run.workflowId,
+        description: workflow?.description,
+      },
+      run_type: "workflow",
+      triggered_by: "api",
+      status: step.status,
+      session_active: run.sessionId !== null,
+      started_at: run.startedAt,
+      completed_at: run.completedAt,
+      error_message: step.errorMessage ?? null,
+    };
+  }
+
+  private _workflowRecord(workflowId: string) {
+    const workflow = this._getWorkflow(workflowId);
+    return {
+      uuid: workflowId,
+      name: workflow.name ?? workflowId,
+      description: workflow.description,
+      arguments: argumentRecords(workflow.arguments),
+      files: [],
+      instructions: (workflow.instructions ?? ["Run workflow"]).map(
+        (instruction, index) => ({ instruction_order: index + 1, instruction })
+      ),
+      created_at: this._timestamp(),
+      updated_at: this._timestamp(),
+    };
+  }
+
+  private _talentRecord(talentId: string) {
+    const talent = this._talents.get(talentId);
+    if (!talent) throw new HttpError(404, "Talent not found");
+    return {
+      uuid: talentId,
+      name: talent.name ?? talentId,
+      description: talent.description,
+      arguments: argumentRecords(talent.arguments),
+      files: [],
+      created_at: this._timestamp(),
+      updated_at: this._timestamp(),
+    };
+  }
+
+  private _submitTalentRun(talentId: string, body: any) {
+    const talent = this._talents.get(talentId);
+    if (!talent) throw new HttpError(404, "Talent not found");
+    const sessionId = body?.browser_session_id;
+    if (sessionId !== undefined) this._getSession(sessionId);
+
+    const status = talent.status ?? WorkflowRunStatus.COMPLETED;
+    const result =
+      typeof talent.result === "function"
+        ? talent.result(body?.args ?? {})
+        : talent.result;
+    const errorMessage =
+      status === WorkflowRunStatus.FAILED
+        ? (talent.errorMessage ?? "Talent failed")
+        : undefined;
+    const run: FakeTalentRun = {
+      runId: this._id("talent-run"),
+      talentId,
+      steps: [
+        { status: WorkflowRunStatus.PENDING },
+        { status: WorkflowRunStatus.RUNNING },
+        status === WorkflowRunStatus.COMPLETED
+          ? { status, result: result ?? null }
+          : { status, errorMessage },
+      ].map((step) => ({ polls: talent.pollsPerStep ?? 1, ...step })),
+      stepIndex: 0,
+      pollsOnStep: 0,
+      startedAt: this._timestamp(),
+      completedAt: null,
+      preserveState: body?.preserve_state,
+    };
+    this._talentRuns.set(run.runId, run);
+    return {
+      talent_id: talentId,
+      run_id: run.runId,
+      status: run.steps[0].status,
+    };
+  }
+
+  private _pollTalent(run: FakeTalentRun) {
+    const results = this._talentResults(run);
+    if (advance(run)) this._onStepChange(run);
+    return results;
+  }
+
+  private _cancelTalent(run: FakeTalentRun) {
+    if (!isTerminal(currentStep(run).status)) {
+      run.steps = [
+        ...run.steps.slice(0, run.stepIndex),
+        { status: WorkflowRunStatus.CANCELLED },
+      ];
+      this._onStepChange(run);
+    }
+    return this._talentResults(run);
+  }
+
+  private _talentResults(run: FakeTalentRun) {
+    const step = currentStep(run);
+    return {
+      talent_id: run.talentId,
+      run_id: run.runId,
+      status: step.status,
+      started_at: run.startedAt,
+      completed_at: run.completedAt,
+      message: step.message ?? null,
+      result: step.result ?? null,
+      result_format: step.result !== undefined ? "json" : null,
+      error_message: step.errorMessage ?? null,
+    };
+  }
+
+  private _createSession(body: any) {
+    const session = {
+      uuid: this._id("session"),
+      provider: body?.provider ?? "default",
+      status: "active",
+      is_busy: false,
+      user_managed: true,
+      current_run_type: null,
+      current_run_id: null,
+      created_at: this._timestamp(),
+      started_at: this._timestamp(),
+      last_activity_at: null,
+      proxy_country: body?.proxy_country ?? null,
+      proxy_city: body?.proxy_city ?? null,
+    };
+    this._sessions.set(session.uuid, session);
+    return session;
+  }
+
+  private _saveState(name: string, runId: string | null): void {
+    const existing = this._states.get(name);
+    this._states.set(name, {
+      name,
+      domains: [],
+      size_bytes: 0,
+      created_at: existing?.created_at ?? this._timestamp(),
+      updated_at: this._timestamp(),
+      last_used_at: existing?.last_used_at ?? null,
+      created_by_run_id: existing?.created_by_run_id ?? runId,
+    });
+  }
+}
+
+function currentStep(run: FakeRun | FakeTalentRun): FakeRunStep {
+  return run.steps[run.stepIndex];
+}
+
+/**
+ * Count a results poll against the current step, moving to the next step
+ * once it has been served enough times. Returns whether the step changed.
+ */
+function advance(run: FakeRun | FakeTalentRun): boolean {
+  run.pollsOnStep++;
+  if (
+    run.stepIndex < run.steps.length - 1 &&
+    run.pollsOnStep >= (currentStep(run).polls ?? 1)
+  ) {
+    run.stepIndex++;
+    run.pollsOnStep = 0;
+    return true;
+  }
+  return false;
+}
+
+function isTerminal(status: string): boolean {
+  return (WorkflowRunStatus.TERMINAL_STATUSES as readonly string[]).includes(
+    status
+  );
+}
+
+/**
+ * Generate the default progression: pending, each instruction running in
+ * turn, then the scripted outcome.
+ */
+function scriptSteps(
+  workflow: FakeWorkflowDefinition,
+  instructions: string[],
+  args: Record<string, unknown>
+): FakeRunStep[] {
+  const outcome = workflow.outcome ?? WorkflowRunStatus.COMPLETED;
+  // Index of the instruction running when the run ends
+  const last =
+    outcome === WorkflowRunStatus.COMPLETED
+      ? instructions.length - 1
+      : Math.min(workflow.failAt ?? Infinity, instructions.length - 1);
+  const executions = (
+    running: number,
+    status: AgentStatus = AgentExecutionStatus.RUNNING
+  ): FakeExecution[] =>
+    instructions.slice(0, running + 1).map((_, index) => ({
+      status: index < running ? AgentExecutionStatus.COMPLETED : status,
+    }));
+
+  const steps: FakeRunStep[] = [{ status: WorkflowRunStatus.PENDING }];
+  for (let index = 0; index <= last; index++) {
+    steps.push({
+      status: WorkflowRunStatus.RUNNING,
+      executions: executions(index),
+    });
+  }
+
+  if (outcome === WorkflowRunStatus.COMPLETED) {
+    steps.push({
+      status: WorkflowRunStatus.COMPLETED,
+      executions: executions(last, AgentExecutionStatus.COMPLETED),
+      result:
+        typeof workflow.result === "function"
+          ? workflow.result(args)
+          : (workflow.result ?? {}),
+    });
+  } else {
+    const errorMessage =
+      outcome === WorkflowRunStatus.FAILED
+        ? (workflow.errorMessage ?? "Workflow failed")
+        : undefined;
+    steps.push({
+      status: outcome,
+      executions: executions(last, outcome).map((execution, index) =>
+        index === last ? { ...execution, errorMessage } : execution
+      ),
+      errorMessage,
+    });
+  }
+  return steps;
+}
+
+function argumentRecords(
+  args: FakeWorkflowDefinition["arguments"] = []
+): Record<string, unknown>[] {
+  return args.map((arg) => ({
+    name: arg.name,
+    type: arg.type ?? "string",
+    required: arg.required ?? false,
+    description: null,
+    default_value: null,
+  }));
+}
+
+function parseBody(data: unknown): any {
+  if (typeof FormData !== "undefined" && data instanceof FormData) {
+    const payload = data.get("payload");
+    return typeof payload === "string" ? JSON.parse(payload) : {};
+  }
+  if (typeof data === "string" && data !== "") {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return data;
+    }
+  }
+  return data;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new AxiosError("canceled", AxiosError.ERR_CANCELED));
+      },
+      { once: true }
+    );
+  });
+}
+
+function toFetchResponse(response: AxiosResponse): Response {
+  const { data, status } = response;
+  const headers = new Headers(response.headers as Record<string, string>);
+  let body: BodyInit | null = null;
+  if (data instanceof Uint8Array) {
+    body = new Uint8Array(data);
+  } else if (data !== "" && data !== undefined) {
+    body = JSON.stringify(data);
+    headers.set("content-type", "application/json");
+  }
+  return new Response(status === 204 ? null : body, { status, headers });
+}
+
+function toAxiosError(
+  config: InternalAxiosRequestConfig,
+  failure: FakeFailure
+): AxiosError {
+  if (failure.networkError) {
+    return new AxiosError(
+      `Fake network error (${failure.networkError})`,
+      failure.networkError,
+      config
+    );
+  }
+  const status = failure.status ?? 500;
+  const response: AxiosResponse = {
+    data: { detail: failure.detail ?? `Injected ${status} error` },
+    status,
+    statusText: String(status),
+    headers: failure.headers ?? {},
+    config,
+  };
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    undefined,
+    response
+  );
+}
@@ -0,0 +1,35 @@
+import { SpanAttributes, Tracer } from "./types.js";
+
+// SpanStatusCode.ERROR in @opentelemetry/api
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Run `fn` inside an active span, recording a thrown error on it. Without a
+ * tracer `fn` is simply called.
+ */
+export async function withSpan<T>(
+  tracer: Tracer | undefined,
+  name: string,
+  attributes: SpanAttributes,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (!tracer) {
+    return fn();
+  }
+  return tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn();
+    } catch (error) {
+      span.recordException(
+        error instanceof Error ? error : new Error(String(error))
+      );
+      span.setStatus({
+        code: SPAN_STATUS_ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
@@ -0,0 +1,131 @@
+import { Transport, TransportRequest, TransportResponse } from "./types.js";
+import { abortException } from "./utils.js";
+
+/**
+ * A failed request sent through a custom transport. It carries the same
+ * `code`, `config` and `response` fields as an AxiosError and sets
+ * `isAxiosError`, so it is classified and retried exactly like one.
+ */
+export class TransportError extends Error {
+  readonly isAxiosError = true;
+  readonly code?: string;
+  readonly config: Pick<TransportRequest, "method" | "url" | "headers">;
+  readonly response?: TransportResponse;
+
+  constructor(
+    message: string,
+    request: TransportRequest,
+    options: { code?: string; response?: TransportResponse; cause?: unknown }
+  ) {
+    super(message);
+    this.name = "TransportError";
+    this.code = options.code;
+    this.config = {
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+    };
+    this.response = options.response;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+/**
+ * Join the base URL, path and query parameters of a request. Undefined
+ * parameters are left out.
+ */
+export function buildUrl(
+  baseURL: string,
+  path: string,
+  params: Record<string, unknown> = {}
+): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.append(key, String(value));
+  }
+  const search = query.toString();
+  return `${baseURL}${path}${search ? `?${search}` : ""}`;
+}
+
+/**
+ * A transport built on the global `fetch`, with no dependencies. Use it in
+ * Deno, Bun, Cloudflare Workers, browsers and browser extensions.
+ */
+export function fetchTransport(
+  options: { fetch?: typeof fetch } = {}
+): Transport {
+  return async (request) => {
+    const fetchImpl = options.fetch ?? globalThis.fetch;
+    if (request.signal?.aborted) {
+      throw abortException(request.signal);
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer =
+      request.timeout > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, request.timeout)
+        : null;
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener("abort", onAbort, { once: true });
+    let streaming = false;
+
+    try {
+      const isForm =
+        typeof FormData !== "undefined" && request.body instanceof FormData;
+      const response = await fetchImpl(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body:
+          request.body === undefined || isForm
+            ? (request.body as BodyInit | undefined)
+            : JSON.stringify(request.body),
+        signal: controller.signal,
+      });
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value;
+      });
+      if (request.responseType === "stream" && response.ok) {
+        // The caller's signal keeps cancelling the body while it is read
+        streaming = true;
+        return { status: response.status, headers, data: response.body };
+      }
+      const text = await response.text();
+      let data: unknown = text;
+      if (text !== "") {
+        try {
+          data = JSON.parse(text);
+        } catch {
+          // Not JSON, keep the raw text
+        }
+      }
+      return { status: response.status, headers, data };
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw abortException(request.signal);
+      }
+      if (timedOut) {
+        throw new TransportError(
+          `timeout of ${request.timeout}ms exceeded`,
+          request,
+          { code: "ECONNABORTED", cause: error }
+        );
+      }
+      throw new TransportError(
+        error instanceof Error ? error.message : "Network Error",
+        request,
+        { code: "ERR_NETWORK", cause: error }
+      );
+    } finally {
+      if (timer) clearTimeout(timer);
+      if (!streaming) request.signal?.removeEventListener("abort", onAbort);
+    }
+  };
+}
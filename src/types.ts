@@ -1,42 +1,390 @@
+import type { AxiosInstance, AxiosRequestConfig } from "axios";
+import type { RateLimiter } from "./ratelimit.js";
+
 export type WorkflowStatus = "P" | "R" | "C" | "F" | "X";
 export type AgentStatus = "P" | "R" | "C" | "F" | "X";
+export type TalentStatus = WorkflowStatus;
 
 export interface FileUpload {
   filename: string;
   data: string; // base64 encoded file content
+  contentType?: string;
 }
 
-export interface WorkflowRunOptions {
-  args?: Record<string, string | number>;
-  files?: FileUpload[];
+/**
+ * Raw file content, as built by the `FileUpload.fromPath()`,
+ * `FileUpload.fromBuffer()` and `FileUpload.fromStream()` helpers.
+ */
+export interface BinaryFileUpload {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+export type FileInput = FileUpload | BinaryFileUpload;
+
+export interface FileUploadHelperOptions {
+  contentType?: string; // inferred from the file extension by default
+  maxSize?: number; // bytes (default: 50 MB)
+}
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  backoffBase?: number;
+  backoffCap?: number;
+  jitter?: boolean;
+  retryStatusCodes?: number[];
+  retryMethods?: string[];
+}
+
+export interface PollingContext {
+  attempt: number; // 1 for the delay after the first poll
+  elapsed: number; // milliseconds since polling started
+  lastStatus: WorkflowStatus | null;
+}
+
+export type PollingStrategy = (context: PollingContext) => number;
+
+export interface RunPollerOptions {
+  maxConcurrency?: number;
+  minInterval?: number;
+}
+
+export type RequestPriority = "high" | "normal" | "low";
+
+export interface RateLimiterOptions {
+  requestsPerSecond: number;
+  burst?: number; // default: requestsPerSecond, rounded up
+  maxConcurrent?: number; // default: unlimited
+  agingInterval?: number; // ms queued per priority level gained (default: 5000)
+}
+
+export interface RateLimiterMetrics {
+  queued: number;
+  queuedByPriority: Record<RequestPriority, number>;
+  inFlight: number;
+  availableTokens: number;
+  granted: number; // requests let through since creation
+  averageWait: number; // milliseconds spent queued, averaged over granted
+  maxWait: number; // longest time a granted request spent queued
+}
+
+export interface RequestOptions {
+  retry?: RetryOptions | false;
+  requestTimeout?: number;
+  signal?: AbortSignal;
+}
+
+export interface TransportRequest {
+  method: string; // upper-case
+  url: string; // absolute, including the query string
+  headers: Record<string, string>;
+  body?: unknown; // JSON-serializable value or FormData
+  timeout: number; // milliseconds, 0 = no timeout
+  signal?: AbortSignal;
+  responseType?: "stream"; // resolve with the body unread, for downloads
+}
+
+export interface TransportResponse {
+  status: number;
+  headers: Record<string, string>; // lower-case names
+  data: unknown; // parsed JSON, the raw text, or the body stream
+}
+
+export type Transport = (
+  request: TransportRequest
+) => Promise<TransportResponse>;
+
+// Returns the current token; `refresh` is true after the API rejected it
+export type TokenProvider = (context: {
+  refresh: boolean;
+}) => string | Promise<string>;
+
+export interface WitriumClientOptions {
+  apiToken?: string | TokenProvider;
+  baseURL?: string;
+  timeout?: number;
+  headers?: Record<string, string>;
+  userAgentSuffix?: string;
+  httpAgent?: unknown;
+  httpsAgent?: unknown;
+  adapter?: AxiosRequestConfig["adapter"];
+  axiosInstance?: AxiosInstance;
+  retry?: RetryOptions | false;
+  sharedPolling?: RunPollerOptions | boolean;
+  multipartThreshold?: number;
+  middleware?: WitriumMiddleware[];
+  tracer?: Tracer;
+  rateLimit?: RateLimiterOptions | RateLimiter;
+  transport?: Transport;
+  runStore?: RunStore;
+  clock?: Clock; // waits and timeouts of polling
+}
+
+export interface WitriumRequest {
+  method: string;
+  url: string;
+  params?: Record<string, unknown>;
+  data?: unknown;
+  // X-Witrium-Key is redacted; any other change is sent with the request
+  headers: Record<string, string>;
+  attempt: number;
+}
+
+export interface WitriumResponse {
+  request: WitriumRequest;
+  status: number;
+  headers: Record<string, unknown>;
+  data: unknown;
+  duration: number; // milliseconds
+}
+
+export interface WitriumRequestError {
+  request: WitriumRequest;
+  error: unknown;
+  status?: number; // HTTP status code, if a response was received
+  duration: number; // milliseconds
+  willRetry: boolean;
+}
+
+export interface WitriumMiddleware {
+  onRequest?: (request: WitriumRequest) => void | Promise<void>;
+  onResponse?: (response: WitriumResponse) => void | Promise<void>;
+  onError?: (failure: WitriumRequestError) => void | Promise<void>;
+}
+
+export interface WitriumClientEvents {
+  runSubmitted: { workflowId: string; runId: string; status: WorkflowStatus };
+  poll: { runId: string; results: WorkflowRunResult };
+  statusChange: {
+    runId: string;
+    previousStatus: WorkflowStatus | null; // null when first seen
+    status: WorkflowStatus;
+  };
+  runComplete: {
+    runId: string;
+    workflowId: string;
+    results: WorkflowRunResult;
+  };
+  sessionCreated: { session: BrowserSession };
+  sessionClosed: { sessionId: string };
+  // A run store write failed; the API call it belonged to went ahead
+  runStoreError: {
+    operation: "saveRun" | "saveSession" | "deleteSession";
+    runId?: string;
+    sessionId?: string;
+    error: unknown;
+  };
+}
+
+interface TrackedRunBase {
+  runId: string;
+  args?: Record<string, unknown>;
+  status: WorkflowStatus;
+  submittedAt: string;
+  updatedAt: string;
+}
+
+export interface TrackedWorkflowRun extends TrackedRunBase {
+  kind?: "workflow"; // missing from records saved by earlier versions
+  workflowId: string;
+  lastResult?: WorkflowRunResult; // last results poll, if any
+}
+
+export interface TrackedTalentRun extends TrackedRunBase {
+  kind: "talent";
+  talentId: string;
+  lastResult?: TalentRunResult; // last results poll, if any
+}
+
+export type TrackedRun = TrackedWorkflowRun | TrackedTalentRun;
+
+export interface TrackedSession {
+  sessionId: string;
+  createdAt: string;
+}
+
+/**
+ * Persists the runs a client submits and the sessions `withBrowserSession()`
+ * opens, so both can be recovered after a restart.
+ */
+export interface RunStore {
+  saveRun(run: TrackedRun): Promise<void>; // insert or replace
+  getRun(runId: string): Promise<TrackedRun | undefined>;
+  listRuns(): Promise<TrackedRun[]>;
+  deleteRun(runId: string): Promise<void>;
+  saveSession(session: TrackedSession): Promise<void>;
+  listSessions(): Promise<TrackedSession[]>;
+  deleteSession(sessionId: string): Promise<void>;
+}
+
+export interface FileRunStoreOptions {
+  maxFinishedAge?: number; // milliseconds finished runs are kept (default: 1 day)
+}
+
+export interface ResumePendingRunsOptions extends RequestOptions {
+  pollingInterval?: number;
+  pollingStrategy?: PollingStrategy;
+  timeout?: number; // per run
+  onProgress?: (results: WorkflowRunResult | TalentRunResult) => void;
+  onComplete?: (
+    results: WorkflowRunResult | TalentRunResult,
+    run: TrackedRun
+  ) => void;
+}
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The subset of an OpenTelemetry `Span` used by the client.
+ */
+export interface TracingSpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(): void;
+}
+
+/**
+ * The subset of an OpenTelemetry `Tracer` used by the client, so a tracer
+ * from `@opentelemetry/api` can be passed as is.
+ */
+export interface Tracer {
+  startActiveSpan<F extends (span: TracingSpan) => unknown>(
+    name: string,
+    options: { attributes?: SpanAttributes },
+    fn: F
+  ): ReturnType<F>;
+}
+
+export type WorkflowArgs = Record<string, string | number>;
+
+export type WorkflowResult = Record<string, any> | any[];
+
+export type ResultSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+export interface ResultSchema {
+  type?: ResultSchemaType | ResultSchemaType[];
+  properties?: Record<string, ResultSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: ResultSchema;
+  enum?: unknown[];
+}
+
+export type ResultValidator<T> =
+  | ((value: unknown) => T)
+  | { parse(value: unknown): T }
+  | ResultSchema;
+
+/**
+ * Maps workflow IDs to their argument and result types, for use with
+ * `WitriumClient.withWorkflowTypes()`.
+ */
+export type WorkflowRegistry<R> = {
+  [K in keyof R]: { args: object; result: unknown };
+};
+
+export interface WorkflowRunOptions<TArgs = WorkflowArgs>
+  extends RequestOptions {
+  args?: TArgs;
+  files?: FileInput[];
   useStates?: string[];
   preserveState?: string;
   noIntelligence?: boolean;
   recordSession?: boolean;
-  browserSessionId?: string;
+  browserSessionId?: string | null; // null = no session, even inside a scope
   skipGotoUrlInstruction?: boolean;
+  webhookUrl?: string;
+  idempotencyKey?: string;
 }
 
-export interface TalentRunOptions {
+export interface TalentRunOptions extends RequestOptions {
   args?: Record<string, string | number>;
-  files?: FileUpload[];
+  files?: FileInput[];
   useStates?: string[];
   preserveState?: string;
-  browserSessionId?: string;
+  browserSessionId?: string | null; // null = no session, even inside a scope
+  webhookUrl?: string;
+  idempotencyKey?: string;
 }
 
-export interface WaitUntilStateOptions {
+export interface RunTalentAndWaitOptions extends TalentRunOptions {
+  pollingInterval?: number;
+  pollingStrategy?: PollingStrategy;
+  timeout?: number;
+  onProgress?: (results: TalentRunResult) => void;
+  cancelOnAbort?: boolean;
+}
+
+export interface WaitUntilStateOptions extends RequestOptions {
   allInstructionsExecuted?: boolean;
   minWaitTime?: number;
   pollingInterval?: number;
+  pollingStrategy?: PollingStrategy;
   timeout?: number;
+  cancelOnAbort?: boolean;
 }
 
-export interface RunWorkflowAndWaitOptions extends WorkflowRunOptions {
+export interface RunWorkflowAndWaitOptions<
+  TResult = WorkflowResult,
+  TArgs = WorkflowArgs,
+> extends WorkflowRunOptions<TArgs> {
   pollingInterval?: number;
+  pollingStrategy?: PollingStrategy;
   timeout?: number;
   returnIntermediateResults?: boolean;
-  onProgress?: (results: WorkflowRunResult) => void;
+  onProgress?: (results: WorkflowRunResult<TResult>) => void;
+  resultSchema?: ResultValidator<TResult>;
+  executionResultSchemas?: Record<number, ResultValidator<unknown>>;
+  cancelOnAbort?: boolean;
+  artifactsDirectory?: string; // download the run's artifacts here when it ends
+}
+
+export interface RunWorkflowBatchOptions
+  extends Omit<WorkflowRunOptions, "args" | "idempotencyKey"> {
+  concurrency?: number;
+  stopOnFailure?: boolean;
+  perRunTimeout?: number;
+  pollingInterval?: number;
+  pollingStrategy?: PollingStrategy;
+  onRunComplete?: (outcome: BatchRunOutcome) => void;
+}
+
+export type BatchRunStatus = "completed" | "failed" | "timeout" | "cancelled";
+
+export interface BatchRunOutcome {
+  index: number;
+  args: Record<string, string | number>;
+  status: BatchRunStatus;
+  runId?: string; // undefined when the run was never submitted
+  result?: WorkflowRunResult;
+  errorMessage?: string;
+  error?: Error;
+}
+
+export interface WorkflowBatchResult {
+  outcomes: BatchRunOutcome[]; // in the same order as the args list
+  summary: {
+    total: number;
+    completed: number;
+    failed: number;
+    timedOut: number;
+    cancelled: number;
+  };
+}
+
+export interface WatchRunOptions extends RequestOptions {
+  pollingInterval?: number;
+  pollingStrategy?: PollingStrategy;
+  timeout?: number;
 }
 
 export interface WorkflowRunSubmitted {
@@ -64,7 +412,7 @@ export interface WorkflowRunExecution {
   errorMessage?: string;
 }
 
-export interface WorkflowRunResult {
+export interface WorkflowRunResult<TResult = WorkflowResult> {
   workflowId: string;
   runId: string;
   status: WorkflowStatus;
@@ -72,17 +420,91 @@ export interface WorkflowRunResult {
   completedAt?: string;
   message?: string;
   executions?: AgentExecution[];
-  result?: Record<string, any> | any[];
+  result?: TResult;
   resultFormat?: string;
   errorMessage?: string;
 }
 
+interface RunEventBase {
+  runId: string;
+  results: WorkflowRunResult;
+}
+
+export interface RunStatusChangedEvent extends RunEventBase {
+  type: "statusChanged";
+  previousStatus: WorkflowStatus | null;
+  status: WorkflowStatus;
+}
+
+export interface ExecutionEvent extends RunEventBase {
+  type:
+    | "executionStarted"
+    | "executionCompleted"
+    | "executionFailed"
+    | "executionCancelled";
+  index: number;
+  execution: AgentExecution;
+}
+
+export interface RunFinishedEvent extends RunEventBase {
+  type: "runFinished";
+  status: WorkflowStatus;
+}
+
+export type RunEvent =
+  | RunStatusChangedEvent
+  | ExecutionEvent
+  | RunFinishedEvent;
+
 export interface Workflow {
   uuid: string;
   name: string;
   description?: string;
 }
 
+export type ArgumentType = "string" | "number" | "integer";
+
+export interface WorkflowArgument {
+  name: string;
+  type: ArgumentType;
+  required: boolean;
+  description: string | null;
+  defaultValue: string | number | null;
+}
+
+export interface ExpectedFile {
+  name: string;
+  required: boolean;
+  description: string | null;
+  contentTypes: string[]; // empty when any type is accepted
+}
+
+export interface WorkflowInstruction {
+  instructionOrder: number;
+  instruction: string;
+}
+
+export interface WorkflowDefinition extends Workflow {
+  arguments: WorkflowArgument[];
+  files: ExpectedFile[];
+  instructions: WorkflowInstruction[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Talent {
+  uuid: string;
+  name: string;
+  description?: string;
+}
+
+export interface TalentDefinition extends Talent {
+  arguments: WorkflowArgument[];
+  files: ExpectedFile[];
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface WorkflowRun {
   uuid: string;
   sessionId?: string; // browser_session id
@@ -97,8 +519,16 @@ export interface WorkflowRun {
   executions?: WorkflowRunExecution[];
 }
 
+export interface TalentRunSubmitted {
+  talentId: string;
+  runId: string;
+  status: TalentStatus;
+}
+
 export interface TalentRunResult {
-  status: string;
+  talentId: string;
+  runId: string;
+  status: TalentStatus;
   startedAt: string | null;
   completedAt: string | null;
   message: string | null;
@@ -107,13 +537,14 @@ export interface TalentRunResult {
   errorMessage: string | null;
 }
 
-export interface BrowserSessionCreateOptions {
+export interface BrowserSessionCreateOptions extends RequestOptions {
   provider?: string;
   useProxy?: boolean;
   proxyCountry?: string;
   proxyCity?: string;
   useStates?: string[];
   preserveState?: string;
+  idempotencyKey?: string;
 }
 
 export interface BrowserSession {
@@ -131,12 +562,327 @@ export interface BrowserSession {
   proxyCity: string | null;
 }
 
+export interface BrowserSessionPoolOptions {
+  min?: number;
+  max?: number;
+  idleTimeout?: number;
+  acquireTimeout?: number;
+  healthCheck?: boolean;
+  sessionOptions?: BrowserSessionCreateOptions;
+  warmUp?: (sessionId: string) => Promise<void>;
+}
+
+export interface BrowserSessionPoolStats {
+  idle: number;
+  leased: number;
+  creating: number;
+  waiting: number;
+}
+
+export interface PipelineContext {
+  input: Record<string, unknown>; // passed to pipeline.run()
+  outputs: Record<string, any>; // `result` of each completed step, by name
+  results: Record<string, WorkflowRunResult | TalentRunResult>;
+  sessionId: string | null;
+}
+
+export type PipelineArgs =
+  | WorkflowArgs
+  | ((context: PipelineContext) => WorkflowArgs);
+
+// Own session for a step and its children, or false for none
+export type PipelineStepSession = BrowserSessionCreateOptions | false;
+
+interface PipelineRunStepBase {
+  name: string;
+  args?: PipelineArgs;
+  when?: (context: PipelineContext) => boolean; // skipped when false
+  session?: PipelineStepSession; // default: the pipeline's session
+  retries?: number; // extra attempts after a failed run (default: 0)
+  retryDelay?: number; // milliseconds between attempts (default: 0)
+  compensate?: PipelineCompensation; // undoes the step if a later one fails
+}
+
+export interface PipelineWorkflowStep extends PipelineRunStepBase {
+  workflow: string;
+  options?: Omit<
+    RunWorkflowAndWaitOptions,
+    "args" | "signal" | "browserSessionId" | "returnIntermediateResults"
+  >;
+}
+
+export interface PipelineTalentStep extends PipelineRunStepBase {
+  talent: string;
+  options?: Omit<
+    RunTalentAndWaitOptions,
+    "args" | "signal" | "browserSessionId"
+  >;
+}
+
+export type PipelineCompensation =
+  | Omit<PipelineWorkflowStep, "name" | "when" | "compensate" | "session">
+  | Omit<PipelineTalentStep, "name" | "when" | "compensate" | "session">;
+
+export interface PipelineSequenceStep {
+  name: string;
+  sequence: PipelineStep[];
+  when?: (context: PipelineContext) => boolean;
+  session?: PipelineStepSession;
+}
+
+export interface PipelineParallelStep {
+  name: string;
+  parallel: PipelineStep[];
+  when?: (context: PipelineContext) => boolean;
+  session?: PipelineStepSession;
+}
+
+export type PipelineStep =
+  | PipelineWorkflowStep
+  | PipelineTalentStep
+  | PipelineSequenceStep
+  | PipelineParallelStep;
+
+export interface PipelineDefinition {
+  steps: PipelineStep[];
+  session?: BrowserSessionCreateOptions | false; // false = no shared session
+}
+
+export interface PipelineRunOptions {
+  signal?: AbortSignal;
+  onStepComplete?: (step: PipelineStepTrace) => void;
+}
+
+export type PipelineStatus = "completed" | "failed" | "cancelled";
+
+export interface PipelineStepTrace {
+  name: string;
+  kind: "workflow" | "talent" | "sequence" | "parallel";
+  target?: string; // workflow or talent ID
+  status: PipelineStatus | "skipped";
+  runIds: string[]; // one per attempt
+  attempts: number;
+  startedAt: string;
+  completedAt: string;
+  duration: number; // milliseconds
+  result?: unknown;
+  errorMessage?: string;
+  steps?: PipelineStepTrace[]; // sequence and parallel children
+}
+
+export interface PipelineTrace {
+  status: PipelineStatus;
+  sessionId: string | null;
+  steps: PipelineStepTrace[];
+  compensations: PipelineStepTrace[]; // in the order they ran
+  outputs: Record<string, any>;
+  startedAt: string;
+  completedAt: string;
+  duration: number;
+  errorMessage?: string; // of the step that failed the pipeline
+}
+
+export type ScheduleOverlapPolicy = "skip" | "queue" | "cancel-previous";
+
+export type ScheduleCatchUpPolicy = "none" | "latest" | "all";
+
+/**
+ * Time source and timers of a WitriumClient's polling or a WitriumScheduler.
+ * Replace it in tests to move time forward without waiting.
+ */
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, delay: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export interface ScheduledRun {
+  schedule: string; // schedule name
+  scheduledAt: string; // the occurrence this run is for
+  startedAt: string | null; // null while queued or when skipped
+  caughtUp: boolean; // a missed occurrence, run late
+  runId: string | null; // set once the run has finished
+}
+
+export interface ScheduleHooks {
+  onSuccess?: (
+    result: WorkflowRunResult | TalentRunResult,
+    run: ScheduledRun
+  ) => void | Promise<void>;
+  onFailure?: (error: unknown, run: ScheduledRun) => void | Promise<void>;
+  onSkip?: (run: ScheduledRun) => void | Promise<void>; // overlap policy "skip"
+}
+
+interface ScheduleDefinitionBase extends ScheduleHooks {
+  name: string;
+  cron?: string; // five fields, in timeZone
+  every?: number; // milliseconds between runs, instead of cron
+  timeZone?: string; // IANA name (default: the process time zone)
+  args?: WorkflowArgs | ((run: ScheduledRun) => WorkflowArgs);
+  overlap?: ScheduleOverlapPolicy; // default: "skip"
+  catchUp?: ScheduleCatchUpPolicy; // default: "none"
+  jitter?: number; // random delay of up to this many milliseconds
+  lastRunAt?: string | number | Date; // catch up from here after a restart
+}
+
+export interface WorkflowScheduleDefinition extends ScheduleDefinitionBase {
+  workflow: string;
+  options?: Omit<
+    RunWorkflowAndWaitOptions,
+    "args" | "signal" | "cancelOnAbort" | "returnIntermediateResults"
+  >;
+}
+
+export interface TalentScheduleDefinition extends ScheduleDefinitionBase {
+  talent: string;
+  options?: Omit<RunTalentAndWaitOptions, "args" | "signal" | "cancelOnAbort">;
+}
+
+export type ScheduleDefinition =
+  | WorkflowScheduleDefinition
+  | TalentScheduleDefinition;
+
+export interface WitriumSchedulerOptions extends ScheduleHooks {
+  clock?: Clock; // default: Date.now and global timers
+  random?: () => number; // source of jitter, for tests (default: Math.random)
+}
+
+export interface SchedulerStopOptions {
+  cancelRuns?: boolean; // cancel active runs instead of waiting for them
+}
+
+export type ArtifactType = "recording" | "screenshot" | "download";
+
+export interface Artifact {
+  uuid: string;
+  type: ArtifactType;
+  filename: string;
+  contentType: string;
+  sizeBytes: number;
+  runId: string | null;
+  sessionId: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+}
+
+export interface ListArtifacts {
+  artifacts: Artifact[];
+  totalCount: number;
+}
+
+export interface ListArtifactsOptions
+  extends RequestOptions,
+    PaginationOptions {
+  type?: ArtifactType;
+}
+
+export interface DownloadedArtifact {
+  artifact: Artifact;
+  path: string;
+}
+
 export interface ListBrowserSession {
   sessions: BrowserSession[];
   totalCount: number;
 }
 
-export interface BrowserSessionCloseOptions {
+export interface PaginationOptions {
+  limit?: number; // page size
+  offset?: number;
+}
+
+export interface ListBrowserSessionsOptions
+  extends RequestOptions,
+    PaginationOptions {}
+
+export interface ListRunsOptions extends RequestOptions, PaginationOptions {
+  workflowId?: string;
+  status?: WorkflowStatus | WorkflowStatus[];
+  triggeredBy?: string;
+  startedAfter?: string | Date;
+  startedBefore?: string | Date;
+}
+
+export interface ListWorkflowRuns {
+  runs: WorkflowRun[];
+  totalCount: number;
+}
+
+export interface ListWorkflowsOptions
+  extends RequestOptions,
+    PaginationOptions {
+  search?: string; // matches name and description
+}
+
+export interface ListWorkflows {
+  workflows: WorkflowDefinition[];
+  totalCount: number;
+}
+
+export interface ListTalentsOptions extends RequestOptions, PaginationOptions {
+  search?: string; // matches name and description
+}
+
+export interface ListTalents {
+  talents: TalentDefinition[];
+  totalCount: number;
+}
+
+export interface BrowserSessionCloseOptions extends RequestOptions {
   force?: boolean;
   preserveState?: string;
 }
+
+export interface BrowserState {
+  name: string;
+  domains: string[]; // sites with saved cookies or storage
+  sizeBytes: number;
+  createdAt: string;
+  updatedAt: string; // last time a run or session preserved it
+  lastUsedAt: string | null;
+  createdByRunId: string | null;
+}
+
+export interface ListBrowserStates {
+  states: BrowserState[];
+  totalCount: number;
+}
+
+export interface ListBrowserStatesOptions
+  extends RequestOptions,
+    PaginationOptions {
+  search?: string; // matches the state name
+}
+
+export interface EnsureStateOptions
+  extends Omit<
+    RunWorkflowAndWaitOptions,
+    "preserveState" | "returnIntermediateResults"
+  > {
+  loginWorkflowId: string;
+  maxAge?: number; // milliseconds; refresh states last updated earlier
+}
+
+// Narrow with `"talentId" in result`
+export type WebhookRunResult = WorkflowRunResult | TalentRunResult;
+
+export interface WebhookVerifyOptions {
+  tolerance?: number; // seconds a timestamp stays valid (default: 300)
+  now?: () => number; // current time in milliseconds, for tests
+}
+
+/**
+ * View of a WitriumClient whose workflow calls are typed by a registry.
+ */
+export interface TypedWorkflowClient<R extends WorkflowRegistry<R>> {
+  runWorkflow<K extends keyof R & string>(
+    workflowId: K,
+    options?: WorkflowRunOptions<R[K]["args"]>
+  ): Promise<WorkflowRunSubmitted>;
+  runWorkflowAndWait<K extends keyof R & string>(
+    workflowId: K,
+    options?: RunWorkflowAndWaitOptions<R[K]["result"], R[K]["args"]>
+  ): Promise<
+    WorkflowRunResult<R[K]["result"]> | WorkflowRunResult<R[K]["result"]>[]
+  >;
+}
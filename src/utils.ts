@@ -0,0 +1,246 @@
+import type { AxiosError } from "axios";
+import { WitriumAbortException } from "./errors.js";
+import { Clock } from "./types.js";
+
+/**
+ * Real time, through the global timers.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export function abortException(
+  signal: AbortSignal,
+  runId?: string
+): WitriumAbortException {
+  return new WitriumAbortException("Operation was aborted", {
+    runId,
+    cause: signal.reason,
+  });
+}
+
+export function throwIfAborted(signal?: AbortSignal, runId?: string): void {
+  if (signal?.aborted) {
+    throw abortException(signal, runId);
+  }
+}
+
+/**
+ * Resolve after `ms` milliseconds, or reject with a WitriumAbortException as
+ * soon as `signal` is aborted.
+ */
+export function sleep(
+  ms: number,
+  signal?: AbortSignal,
+  runId?: string,
+  clock: Clock = systemClock
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortException(signal, runId));
+      return;
+    }
+    const onAbort = () => {
+      clock.clearTimeout(timer);
+      reject(abortException(signal!, runId));
+    };
+    const timer = clock.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function toCamelCase(str: string): string {
+  return str.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
+}
+
+/**
+ * Recursively convert the snake_case keys of an API payload to camelCase.
+ */
+export function transformKeysToCamelCase(obj: any): any {
+  if (obj === null || obj === undefined) {
+    return obj;
+  }
+  if (Array.isArray(obj)) {
+    return obj.map((item) => transformKeysToCamelCase(item));
+  }
+  // Tag check rather than `constructor === Object`, which misses objects
+  // created in another realm (iframes, extension contexts) or without prototype
+  if (Object.prototype.toString.call(obj) === "[object Object]") {
+    const transformed: Record<string, any> = {};
+    for (const [key, value] of Object.entries(obj)) {
+      transformed[toCamelCase(key)] = transformKeysToCamelCase(value);
+    }
+    return transformed;
+  }
+  return obj;
+}
+
+export const API_KEY_HEADER = "X-Witrium-Key";
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Copy headers with the API token replaced, so they are safe to log.
+ */
+export function redactHeaders<T extends Record<string, unknown>>(
+  headers: T
+): T {
+  const redacted: Record<string, unknown> = { ...headers };
+  for (const key of Object.keys(redacted)) {
+    if (key.toLowerCase() === API_KEY_HEADER.toLowerCase()) {
+      redacted[key] = REDACTED;
+    }
+  }
+  return redacted as T;
+}
+
+/**
+ * Whether `error` is a failed HTTP request: an AxiosError, or a
+ * TransportError from a custom transport. Checked by shape, so axios does
+ * not have to be loaded.
+ */
+export function isRequestError(error: unknown): error is AxiosError<any> {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { isAxiosError?: unknown }).isAxiosError === true
+  );
+}
+
+/**
+ * Whether `error` is axios's error for a cancelled request.
+ */
+export function isCancelError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { __CANCEL__?: unknown }).__CANCEL__ === true
+  );
+}
+
+/**
+ * Replace the API token in the request headers a failed request's error
+ * carries (axios errors and TransportErrors alike), in place, before the
+ * error reaches middleware or callers. The underlying request objects are
+ * dropped too: a Node ClientRequest keeps the raw header text, token
+ * included, which `util.inspect()` prints.
+ */
+export function redactError(error: unknown): void {
+  if (!error || typeof error !== "object") return;
+  const failed = error as {
+    config?: { headers?: Record<string, unknown> };
+    request?: unknown;
+    response?: {
+      config?: { headers?: Record<string, unknown> };
+      request?: unknown;
+    };
+  };
+  delete failed.request;
+  if (failed.response) delete failed.response.request;
+  for (const headers of [
+    failed.config?.headers,
+    failed.response?.config?.headers,
+  ]) {
+    if (!headers) continue;
+    for (const key of Object.keys(headers)) {
+      if (key.toLowerCase() === API_KEY_HEADER.toLowerCase()) {
+        headers[key] = REDACTED;
+      }
+    }
+  }
+}
+
+/**
+ * Load a Node built-in module without a static import, so bundlers targeting
+ * browsers and edge runtimes leave it out. Returns undefined where the module
+ * is not available.
+ */
+export function loadBuiltin<T>(name: string): T | undefined {
+  const nodeProcess = (globalThis as any).process;
+  if (typeof nodeProcess?.getBuiltinModule === "function") {
+    return nodeProcess.getBuiltinModule(name);
+  }
+  // Older Node versions, CommonJS build only
+  if (typeof module !== "undefined" && typeof module.require === "function") {
+    try {
+      return module.require(name);
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Like loadBuiltin, but falls back to a dynamic import, which is the only way
+ * to reach built-ins from the ES module build on Node.js versions without
+ * `process.getBuiltinModule()`.
+ */
+export async function loadBuiltinAsync<T>(
+  name: string
+): Promise<T | undefined> {
+  const builtin = loadBuiltin<T>(name);
+  if (builtin) return builtin;
+  if (typeof (globalThis as any).process?.versions?.node !== "string") {
+    return undefined;
+  }
+  const specifier = `node:${name}`;
+  try {
+    return await import(/* webpackIgnore: true */ specifier);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Base64-encode bytes with Buffer where available, or btoa elsewhere.
+ */
+export function toBase64(bytes: Uint8Array): string {
+  const NodeBuffer = (globalThis as any).Buffer;
+  if (NodeBuffer) {
+    return NodeBuffer.from(bytes).toString("base64");
+  }
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    chunks.reduce((total, chunk) => total + chunk.byteLength, 0)
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return result;
+}
+
+/**
+ * Replace a streamed error response body with its parsed content, so the
+ * API's `detail` can be reported like for any other request.
+ */
+export async function bufferErrorBody(error: any): Promise<void> {
+  const data = error?.response?.data;
+  if (!data || typeof data[Symbol.asyncIterator] !== "function") return;
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of data) {
+    chunks.push(
+      typeof chunk === "string" ? new TextEncoder().encode(chunk) : chunk
+    );
+  }
+  const text = new TextDecoder().decode(concatBytes(chunks));
+  try {
+    error.response.data = JSON.parse(text);
+  } catch {
+    error.response.data = text;
+  }
+}
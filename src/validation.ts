@@ -0,0 +1,166 @@
+import {
+  ResultSchema,
+  ResultSchemaType,
+  ResultValidator,
+  WorkflowRunResult,
+} from "./types.js";
+import {
+  WitriumClientException,
+  WitriumResultValidationException,
+} from "./errors.js";
+
+function typeOf(value: unknown): ResultSchemaType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value as ResultSchemaType;
+}
+
+function matchesType(value: unknown, type: ResultSchemaType): boolean {
+  const actual = typeOf(value);
+  // Every integer is also a number
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/**
+ * Check `value` against a JSON-Schema-like descriptor, returning the path and
+ * reason of the first mismatch, or null when it conforms.
+ */
+function checkSchema(
+  value: unknown,
+  schema: ResultSchema,
+  path: string
+): { path: string; reason: string } | null {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return {
+        path,
+        reason: `expected ${types.join(" | ")}, received ${typeOf(value)}`,
+      };
+    }
+  }
+
+  if (schema.enum !== undefined && !schema.enum.includes(value)) {
+    return {
+      path,
+      reason: `expected one of ${JSON.stringify(schema.enum)}, received ${JSON.stringify(value)}`,
+    };
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    for (let i = 0; i < value.length; i++) {
+      const issue = checkSchema(value[i], schema.items, `${path}[${i}]`);
+      if (issue) return issue;
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        return { path: `${path}.${key}`, reason: "required property missing" };
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(
+      schema.properties ?? {}
+    )) {
+      if (key in record) {
+        const issue = checkSchema(
+          record[key],
+          propertySchema,
+          `${path}.${key}`
+        );
+        if (issue) return issue;
+      }
+    }
+    if (schema.additionalProperties === false) {
+      const extra = Object.keys(record).find(
+        (key) => !(schema.properties && key in schema.properties)
+      );
+      if (extra !== undefined) {
+        return { path: `${path}.${extra}`, reason: "unexpected property" };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Run a user-supplied validator (parse function, object with `parse()` such
+ * as a zod schema, or schema descriptor) and return the validated value.
+ */
+export function validateValue<T>(
+  value: unknown,
+  validator: ResultValidator<T>,
+  path: string,
+  runId?: string
+): T {
+  if (typeof validator === "function" || "parse" in validator) {
+    const parse =
+      typeof validator === "function"
+        ? validator
+        : (validator as { parse(value: unknown): T }).parse.bind(validator);
+    try {
+      return parse(value);
+    } catch (error) {
+      if (error instanceof WitriumClientException) throw error;
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new WitriumResultValidationException(
+        `Invalid workflow result at '${path}': ${reason}`,
+        { path, runId, cause: error }
+      );
+    }
+  }
+
+  const issue = checkSchema(value, validator as ResultSchema, path);
+  if (issue) {
+    throw new WitriumResultValidationException(
+      `Invalid workflow result at '${issue.path}': ${issue.reason}`,
+      { path: issue.path, runId }
+    );
+  }
+  return value as T;
+}
+
+/**
+ * Validate the final result and the per-instruction results of a completed
+ * run. `executionResultSchemas` is keyed by `instructionOrder`.
+ */
+export function validateRunResults<TResult>(
+  results: WorkflowRunResult<TResult>,
+  resultSchema?: ResultValidator<TResult>,
+  executionResultSchemas?: Record<number, ResultValidator<unknown>>
+): WorkflowRunResult<TResult> {
+  const validated = { ...results };
+
+  if (executionResultSchemas && results.executions) {
+    validated.executions = results.executions.map((execution, index) => {
+      const validator = executionResultSchemas[execution.instructionOrder];
+      if (!validator) return execution;
+      return {
+        ...execution,
+        result: validateValue(
+          execution.result,
+          validator,
+          `executions[${index}].result`,
+          results.runId
+        ) as typeof execution.result,
+      };
+    });
+  }
+
+  if (resultSchema) {
+    validated.result = validateValue(
+      results.result,
+      resultSchema,
+      "result",
+      results.runId
+    );
+  }
+
+  return validated;
+}
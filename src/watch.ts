@@ -0,0 +1,80 @@
+import { AgentExecutionStatus, WorkflowRunStatus } from "./constants.js";
+import {
+  AgentStatus,
+  ExecutionEvent,
+  RunEvent,
+  WorkflowRunResult,
+} from "./types.js";
+
+const EXECUTION_EVENT_TYPES: Partial<
+  Record<AgentStatus, ExecutionEvent["type"]>
+> = {
+  [AgentExecutionStatus.RUNNING]: "executionStarted",
+  [AgentExecutionStatus.COMPLETED]: "executionCompleted",
+  [AgentExecutionStatus.FAILED]: "executionFailed",
+  [AgentExecutionStatus.CANCELLED]: "executionCancelled",
+};
+
+/**
+ * Compute the events that take a run from `previous` to `current`.
+ * `previous` is null for the first snapshot, which reports the initial
+ * status and every execution that has already progressed.
+ */
+export function diffRunResults(
+  previous: WorkflowRunResult | null,
+  current: WorkflowRunResult
+): RunEvent[] {
+  const events: RunEvent[] = [];
+  const runId = current.runId;
+
+  if (previous?.status !== current.status) {
+    events.push({
+      type: "statusChanged",
+      runId,
+      results: current,
+      previousStatus: previous?.status ?? null,
+      status: current.status,
+    });
+  }
+
+  const previousExecutions = previous?.executions ?? [];
+  (current.executions ?? []).forEach((execution, index) => {
+    const previousStatus = previousExecutions[index]?.status;
+    if (previousStatus === execution.status) {
+      return;
+    }
+    // A step that finished between two polls still reports that it started
+    if (
+      (execution.status === AgentExecutionStatus.COMPLETED ||
+        execution.status === AgentExecutionStatus.FAILED) &&
+      (previousStatus === undefined ||
+        previousStatus === AgentExecutionStatus.PENDING)
+    ) {
+      events.push({
+        type: "executionStarted",
+        runId,
+        results: current,
+        index,
+        execution,
+      });
+    }
+    const type = EXECUTION_EVENT_TYPES[execution.status];
+    if (type) {
+      events.push({ type, runId, results: current, index, execution });
+    }
+  });
+
+  if (
+    WorkflowRunStatus.TERMINAL_STATUSES.includes(current.status as any) &&
+    previous?.status !== current.status
+  ) {
+    events.push({
+      type: "runFinished",
+      runId,
+      results: current,
+      status: current.status,
+    });
+  }
+
+  return events;
+}
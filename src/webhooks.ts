@@ -0,0 +1,266 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import { WebhookRunResult, WebhookVerifyOptions } from "./types.js";
+import {
+  WitriumClientException,
+  WitriumWebhookVerificationException,
+} from "./errors.js";
+import { transformKeysToCamelCase } from "./utils.js";
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-witrium-signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "x-witrium-timestamp";
+
+const DEFAULT_TOLERANCE = 300; // seconds
+
+type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+function computeSignature(
+  body: string | Buffer,
+  timestamp: string,
+  secret: string
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.`)
+    .update(body)
+    .digest("hex");
+}
+
+function readHeader(headers: WebhookHeaders, name: string): string | undefined {
+  // Node lower-cases incoming header names, but plain objects may not
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  const value = key !== undefined ? headers[key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Sign a webhook body the way Witrium does, returning the headers to send.
+ * Useful to build fake signed requests in tests.
+ */
+export function signWebhookPayload(
+  body: string | Buffer,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Record<string, string> {
+  return {
+    [WEBHOOK_SIGNATURE_HEADER]: computeSignature(
+      body,
+      String(timestamp),
+      secret
+    ),
+    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+  };
+}
+
+/**
+ * Check the HMAC signature and timestamp of a webhook request. Throws a
+ * WitriumWebhookVerificationException when either is missing or invalid.
+ */
+export function verifyWebhookSignature(
+  body: string | Buffer,
+  headers: WebhookHeaders,
+  secret: string,
+  options: WebhookVerifyOptions = {}
+): void {
+  const signature = readHeader(headers, WEBHOOK_SIGNATURE_HEADER);
+  const timestamp = readHeader(headers, WEBHOOK_TIMESTAMP_HEADER);
+  if (!signature || !timestamp) {
+    throw new WitriumWebhookVerificationException(
+      "Missing webhook signature or timestamp header"
+    );
+  }
+
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const now = (options.now ?? Date.now)() / 1000;
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > tolerance) {
+    throw new WitriumWebhookVerificationException(
+      `Webhook timestamp is outside the ${tolerance} second tolerance`
+    );
+  }
+
+  const expected = Buffer.from(computeSignature(body, timestamp, secret));
+  const received = Buffer.from(signature);
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    throw new WitriumWebhookVerificationException(
+      "Webhook signature does not match"
+    );
+  }
+}
+
+/**
+ * Verify a webhook request and parse its body into the result of the run
+ * that finished: a TalentRunResult (with `talentId`) for talent runs, a
+ * WorkflowRunResult otherwise. `body` must be the raw request body, before
+ * any JSON parsing.
+ */
+export function constructWebhookEvent(
+  body: string | Buffer,
+  headers: WebhookHeaders,
+  secret: string,
+  options: WebhookVerifyOptions = {}
+): WebhookRunResult {
+  verifyWebhookSignature(body, headers, secret, options);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body.toString());
+  } catch (error) {
+    throw new WitriumWebhookVerificationException(
+      "Webhook body is not valid JSON",
+      { cause: error }
+    );
+  }
+  return transformKeysToCamelCase(parsed);
+}
+
+function isRawBody(body: unknown): body is string | Buffer {
+  return typeof body === "string" || Buffer.isBuffer(body);
+}
+
+/**
+ * The raw body of a request, read from the stream unless a framework already
+ * buffered it (`express.raw()`, or a `rawBody` property set by a plugin).
+ * Throws a WitriumClientException when a parser consumed the stream without
+ * keeping the raw bytes, which the signature is computed over.
+ */
+function readRawBody(
+  req: IncomingMessage & { body?: unknown; rawBody?: unknown }
+): Promise<string | Buffer> {
+  if (isRawBody(req.rawBody)) return Promise.resolve(req.rawBody);
+  if (isRawBody(req.body)) return Promise.resolve(req.body);
+  // 'end' never fires again on a stream a body parser already read
+  if (req.body !== undefined || req.readableEnded) {
+    return Promise.reject(
+      new WitriumClientException(
+        "The webhook request body was already parsed, so its signature cannot be checked; keep the raw body (e.g. express.raw() instead of express.json())"
+      )
+    );
+  }
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+interface WebhookResponse {
+  statusCode: number;
+  message?: string;
+}
+
+/**
+ * Verify a request and hand its result to `onResult`, returning the response
+ * to send: 204 on success, 400 when verification fails, 500 when the body is
+ * unusable or `onResult` throws (so Witrium redelivers).
+ */
+async function handleWebhook(
+  readBody: () => Promise<string | Buffer>,
+  headers: WebhookHeaders,
+  secret: string,
+  onResult: (result: WebhookRunResult) => void | Promise<void>,
+  options: WebhookVerifyOptions
+): Promise<WebhookResponse> {
+  let body: string | Buffer;
+  try {
+    body = await readBody();
+  } catch (error) {
+    // A misconfigured server, not a bad request: let Witrium redeliver
+    return {
+      statusCode: 500,
+      message: error instanceof Error ? error.message : "Invalid webhook",
+    };
+  }
+
+  let result: WebhookRunResult;
+  try {
+    result = constructWebhookEvent(body, headers, secret, options);
+  } catch (error) {
+    return {
+      statusCode: 400,
+      message: error instanceof Error ? error.message : "Invalid webhook",
+    };
+  }
+
+  try {
+    await onResult(result);
+    return { statusCode: 204 };
+  } catch {
+    // Let Witrium redeliver when the handler fails
+    return { statusCode: 500 };
+  }
+}
+
+/**
+ * Build a `(req, res)` handler for Node's `http` server or Express. Verified
+ * results are passed to `onResult`; invalid requests get a 400 response.
+ */
+export function createWebhookHandler(
+  secret: string,
+  onResult: (result: WebhookRunResult) => void | Promise<void>,
+  options: WebhookVerifyOptions = {}
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    const response = await handleWebhook(
+      () => readRawBody(req),
+      req.headers,
+      secret,
+      onResult,
+      options
+    );
+    res.statusCode = response.statusCode;
+    res.end(response.message);
+  };
+}
+
+/**
+ * The parts of a Fastify request the webhook handler uses.
+ */
+export interface FastifyWebhookRequest {
+  headers: WebhookHeaders;
+  body?: unknown;
+  rawBody?: string | Buffer; // set by the fastify-raw-body plugin
+}
+
+/**
+ * The parts of a Fastify reply the webhook handler uses.
+ */
+export interface FastifyWebhookReply {
+  code(statusCode: number): FastifyWebhookReply;
+  send(payload?: string): unknown;
+}
+
+/**
+ * Build a `(request, reply)` route handler for Fastify. Fastify parses JSON
+ * bodies before the handler runs, so register a parser that keeps the raw
+ * bytes for the route (`parseAs: "buffer"`) or use the fastify-raw-body
+ * plugin; otherwise every request gets a 500 explaining that.
+ */
+export function createFastifyWebhookHandler(
+  secret: string,
+  onResult: (result: WebhookRunResult) => void | Promise<void>,
+  options: WebhookVerifyOptions = {}
+): (
+  request: FastifyWebhookRequest,
+  reply: FastifyWebhookReply
+) => Promise<void> {
+  const readBody = async (request: FastifyWebhookRequest) => {
+    if (isRawBody(request.rawBody)) return request.rawBody;
+    if (isRawBody(request.body)) return request.body;
+    throw new WitriumClientException(
+      'The webhook request body was already parsed, so its signature cannot be checked; register a content type parser with parseAs: "buffer" or the fastify-raw-body plugin'
+    );
+  };
+  return async (request, reply) => {
+    const response = await handleWebhook(
+      () => readBody(request),
+      request.headers,
+      secret,
+      onResult,
+      options
+    );
+    reply.code(response.statusCode).send(response.message);
+  };
+}